@@ -0,0 +1,113 @@
+import { Range } from 'vscode-languageserver/node';
+import { FromImportStatement, ImportSpecifier, ImportStatement, walkStatements } from './ast';
+import { getBuiltinCatalog, getBuiltinDecorator, getBuiltinFunction, getBuiltinType } from './builtins';
+import { ModuleContext } from './modules';
+import { Declaration, Reference, enclosingClass } from './scope';
+
+export type UnusedImport = {
+    declaration: Declaration;
+    statement: ImportStatement | FromImportStatement;
+    // The `from` specifier that binds the name; null for a plain `import`.
+    specifier: ImportSpecifier | null;
+};
+
+export type UnusedDeclaration = {
+    declaration: Declaration;
+    kind: 'variable' | 'parameter';
+};
+
+function isBuiltinName(name: string): boolean {
+    return (
+        !!getBuiltinFunction(name) ||
+        !!getBuiltinType(name) ||
+        !!getBuiltinDecorator(name) ||
+        getBuiltinCatalog().keywords.includes(name)
+    );
+}
+
+// A package's `__init__.abl` imports names to re-export them, so its imports count as used.
+function isPackageInit(context: ModuleContext): boolean {
+    return /\/__init__\.abl$/.test(context.uri);
+}
+
+// `this` and names starting with `_` are conventionally allowed to go unused.
+function isIgnoredName(name: string): boolean {
+    return name === 'this' || name.startsWith('_');
+}
+
+function readDeclarations(context: ModuleContext): Set<Declaration> {
+    const read = new Set<Declaration>();
+    for (const reference of context.binding.references) {
+        if (reference.declaration && !reference.write) {
+            read.add(reference.declaration);
+        }
+    }
+    return read;
+}
+
+// Methods declared without a receiver parameter still see `this` as the enclosing instance.
+function isImplicitReceiver(reference: Reference): boolean {
+    return reference.name === 'this' && !!enclosingClass(reference.scope);
+}
+
+// `register_decorator` makes `@name` available at runtime, so decorator names are never reported as unknown.
+function decoratorNameRanges(context: ModuleContext): Set<Range> {
+    const ranges = new Set<Range>();
+    walkStatements(context.program.body, (statement) => {
+        if (statement.kind === 'Function' || statement.kind === 'Class') {
+            statement.decorators.forEach((decorator) => ranges.add(decorator.name.range));
+        }
+    });
+    return ranges;
+}
+
+// Reads of names that no scope declares and that are not builtins.
+export function findUnresolvedReferences(context: ModuleContext): Reference[] {
+    const decorators = decoratorNameRanges(context);
+    return context.binding.references.filter(
+        (reference) =>
+            !reference.write &&
+            !reference.declaration &&
+            !isBuiltinName(reference.name) &&
+            !isImplicitReceiver(reference) &&
+            !decorators.has(reference.range)
+    );
+}
+
+export function findUnusedImports(context: ModuleContext): UnusedImport[] {
+    if (isPackageInit(context)) {
+        return [];
+    }
+    const used = readDeclarations(context);
+    const unused: UnusedImport[] = [];
+    for (const declaration of context.binding.declarations) {
+        const statement = declaration.node;
+        if (declaration.kind !== 'import' || used.has(declaration) || !statement) {
+            continue;
+        }
+        if (statement.kind === 'Import') {
+            unused.push({ declaration, statement, specifier: null });
+        } else if (statement.kind === 'FromImport') {
+            const specifier = statement.names.find((candidate) => (candidate.alias ?? candidate.name).range === declaration.range);
+            unused.push({ declaration, statement, specifier: specifier ?? null });
+        }
+    }
+    return unused;
+}
+
+// Locals and parameters of functions that are never read; module and class names may be used from other modules.
+export function findUnusedDeclarations(context: ModuleContext): UnusedDeclaration[] {
+    const read = readDeclarations(context);
+    const unused: UnusedDeclaration[] = [];
+    for (const declaration of context.binding.declarations) {
+        if (declaration.scope.kind !== 'function' || read.has(declaration) || isIgnoredName(declaration.name)) {
+            continue;
+        }
+        if (declaration.kind === 'parameter') {
+            unused.push({ declaration, kind: 'parameter' });
+        } else if (declaration.kind === 'variable' || declaration.kind === 'function' || declaration.kind === 'class') {
+            unused.push({ declaration, kind: 'variable' });
+        }
+    }
+    return unused;
+}
@@ -0,0 +1,500 @@
+export type Position = {
+    line: number;
+    character: number;
+};
+
+export type Range = {
+    start: Position;
+    end: Position;
+};
+
+export type ParseError = {
+    message: string;
+    range: Range;
+    severity?: 'error' | 'warning';
+};
+
+export type Identifier = {
+    kind: 'Identifier';
+    name: string;
+    range: Range;
+};
+
+export type DottedName = {
+    kind: 'DottedName';
+    name: string;
+    parts: Identifier[];
+    range: Range;
+};
+
+export type NumberLiteral = {
+    kind: 'Number';
+    value: number;
+    raw: string;
+    range: Range;
+};
+
+export type StringLiteral = {
+    kind: 'String';
+    value: string;
+    raw: string;
+    range: Range;
+};
+
+export type FString = {
+    kind: 'FString';
+    parts: Array<string | Expression>;
+    range: Range;
+};
+
+export type BooleanLiteral = {
+    kind: 'Boolean';
+    value: boolean;
+    range: Range;
+};
+
+export type NullLiteral = {
+    kind: 'Null';
+    range: Range;
+};
+
+export type ListLiteral = {
+    kind: 'List';
+    elements: Expression[];
+    range: Range;
+};
+
+export type Property = {
+    kind: 'Property';
+    key: Identifier | StringLiteral;
+    name: string;
+    value: Expression;
+    range: Range;
+};
+
+export type ObjectLiteral = {
+    kind: 'Object';
+    properties: Property[];
+    range: Range;
+};
+
+export type MemberExpression = {
+    kind: 'Member';
+    object: Expression;
+    property: Identifier;
+    range: Range;
+};
+
+export type IndexExpression = {
+    kind: 'Index';
+    object: Expression;
+    index: Expression;
+    range: Range;
+};
+
+export type CallExpression = {
+    kind: 'Call';
+    callee: Expression;
+    args: Expression[];
+    range: Range;
+};
+
+export type UnaryExpression = {
+    kind: 'Unary';
+    operator: string;
+    operand: Expression;
+    range: Range;
+};
+
+export type BinaryExpression = {
+    kind: 'Binary';
+    operator: string;
+    left: Expression;
+    right: Expression;
+    range: Range;
+};
+
+export type AwaitExpression = {
+    kind: 'Await';
+    argument: Expression;
+    range: Range;
+};
+
+export type MissingExpression = {
+    kind: 'Missing';
+    range: Range;
+};
+
+export type Expression =
+    | Identifier
+    | NumberLiteral
+    | StringLiteral
+    | FString
+    | BooleanLiteral
+    | NullLiteral
+    | ListLiteral
+    | ObjectLiteral
+    | MemberExpression
+    | IndexExpression
+    | CallExpression
+    | UnaryExpression
+    | BinaryExpression
+    | AwaitExpression
+    | MissingExpression;
+
+export type ImportStatement = {
+    kind: 'Import';
+    module: DottedName;
+    alias: Identifier | null;
+    range: Range;
+};
+
+export type ImportSpecifier = {
+    kind: 'ImportSpecifier';
+    name: Identifier;
+    alias: Identifier | null;
+    range: Range;
+};
+
+export type FromImportStatement = {
+    kind: 'FromImport';
+    module: DottedName;
+    names: ImportSpecifier[];
+    range: Range;
+};
+
+export type Decorator = {
+    kind: 'Decorator';
+    name: Identifier;
+    args: Expression[] | null;
+    range: Range;
+};
+
+export type Parameter = {
+    kind: 'Parameter';
+    name: Identifier;
+    defaultValue: Expression | null;
+    range: Range;
+};
+
+export type FunctionDeclaration = {
+    kind: 'Function';
+    name: Identifier;
+    params: Parameter[];
+    isAsync: boolean;
+    decorators: Decorator[];
+    body: Statement[];
+    range: Range;
+};
+
+export type ClassDeclaration = {
+    kind: 'Class';
+    name: Identifier;
+    bases: Expression[];
+    decorators: Decorator[];
+    body: Statement[];
+    range: Range;
+};
+
+export type IfClause = {
+    kind: 'IfClause';
+    keyword: 'if' | 'elif' | 'else';
+    test: Expression | null;
+    body: Statement[];
+    range: Range;
+};
+
+export type IfStatement = {
+    kind: 'If';
+    clauses: IfClause[];
+    range: Range;
+};
+
+export type ForStatement = {
+    kind: 'For';
+    targets: Identifier[];
+    iterable: Expression;
+    body: Statement[];
+    range: Range;
+};
+
+export type WhileStatement = {
+    kind: 'While';
+    test: Expression;
+    body: Statement[];
+    range: Range;
+};
+
+export type ReturnStatement = {
+    kind: 'Return';
+    value: Expression | null;
+    range: Range;
+};
+
+export type BreakStatement = {
+    kind: 'Break';
+    range: Range;
+};
+
+export type ContinueStatement = {
+    kind: 'Continue';
+    range: Range;
+};
+
+export type Assignment = {
+    kind: 'Assignment';
+    target: Expression;
+    operator: string;
+    value: Expression;
+    range: Range;
+};
+
+export type ExpressionStatement = {
+    kind: 'ExpressionStatement';
+    expression: Expression;
+    range: Range;
+};
+
+export type Statement =
+    | ImportStatement
+    | FromImportStatement
+    | FunctionDeclaration
+    | ClassDeclaration
+    | IfStatement
+    | ForStatement
+    | WhileStatement
+    | ReturnStatement
+    | BreakStatement
+    | ContinueStatement
+    | Assignment
+    | ExpressionStatement;
+
+export type Program = {
+    kind: 'Program';
+    body: Statement[];
+    range: Range;
+};
+
+export function containsPosition(range: Range, position: Position): boolean {
+    if (position.line < range.start.line || position.line > range.end.line) {
+        return false;
+    }
+    if (position.line === range.start.line && position.character < range.start.character) {
+        return false;
+    }
+    if (position.line === range.end.line && position.character > range.end.character) {
+        return false;
+    }
+    return true;
+}
+
+export function childBlocks(statement: Statement): Statement[][] {
+    switch (statement.kind) {
+        case 'Function':
+        case 'Class':
+        case 'For':
+        case 'While':
+            return [statement.body];
+        case 'If':
+            return statement.clauses.map((clause) => clause.body);
+        default:
+            return [];
+    }
+}
+
+export function walkStatements(statements: Statement[], visit: (statement: Statement) => void): void {
+    for (const statement of statements) {
+        visit(statement);
+        for (const block of childBlocks(statement)) {
+            walkStatements(block, visit);
+        }
+    }
+}
+
+// Like `walkStatements`, but stays out of nested functions and classes.
+export function walkOwnStatements(statements: Statement[], visit: (statement: Statement) => void): void {
+    for (const statement of statements) {
+        visit(statement);
+        if (statement.kind !== 'Function' && statement.kind !== 'Class') {
+            childBlocks(statement).forEach((block) => walkOwnStatements(block, visit));
+        }
+    }
+}
+
+export type FieldAssignment = {
+    property: Identifier;
+    assignment: Assignment;
+};
+
+// Assignments to `this.name` in a method's own body, whether or not the method declares `this` as a parameter.
+export function fieldAssignments(method: FunctionDeclaration): FieldAssignment[] {
+    const found: FieldAssignment[] = [];
+    walkOwnStatements(method.body, (statement) => {
+        if (statement.kind !== 'Assignment') {
+            return;
+        }
+        const target = statement.target;
+        if (target.kind === 'Member' && target.object.kind === 'Identifier' && target.object.name === 'this') {
+            found.push({ property: target.property, assignment: statement });
+        }
+    });
+    return found;
+}
+
+export function childExpressions(expression: Expression): Expression[] {
+    switch (expression.kind) {
+        case 'FString':
+            return expression.parts.filter((part): part is Expression => typeof part !== 'string');
+        case 'List':
+            return expression.elements;
+        case 'Object':
+            return expression.properties.map((property) => property.value);
+        case 'Member':
+            return [expression.object];
+        case 'Index':
+            return [expression.object, expression.index];
+        case 'Call':
+            return [expression.callee, ...expression.args];
+        case 'Unary':
+            return [expression.operand];
+        case 'Binary':
+            return [expression.left, expression.right];
+        case 'Await':
+            return [expression.argument];
+        default:
+            return [];
+    }
+}
+
+function statementExpressions(statement: Statement): Expression[] {
+    switch (statement.kind) {
+        case 'Function':
+            return [
+                ...statement.decorators.flatMap((decorator) => decorator.args ?? []),
+                ...statement.params.flatMap((param) => (param.defaultValue ? [param.defaultValue] : []))
+            ];
+        case 'Class':
+            return [...statement.decorators.flatMap((decorator) => decorator.args ?? []), ...statement.bases];
+        case 'If':
+            return statement.clauses.flatMap((clause) => (clause.test ? [clause.test] : []));
+        case 'For':
+            return [statement.iterable];
+        case 'While':
+            return [statement.test];
+        case 'Return':
+            return statement.value ? [statement.value] : [];
+        case 'Assignment':
+            return [statement.target, statement.value];
+        case 'ExpressionStatement':
+            return [statement.expression];
+        default:
+            return [];
+    }
+}
+
+function visitExpression(expression: Expression, visit: (expression: Expression) => void): void {
+    visit(expression);
+    for (const child of childExpressions(expression)) {
+        visitExpression(child, visit);
+    }
+}
+
+export function walkExpressions(statements: Statement[], visit: (expression: Expression) => void): void {
+    walkStatements(statements, (statement) => {
+        for (const expression of statementExpressions(statement)) {
+            visitExpression(expression, visit);
+        }
+    });
+}
+
+const PRECEDENCE: Record<string, number> = {
+    or: 1,
+    and: 2,
+    '==': 4,
+    '!=': 4,
+    '<': 4,
+    '>': 4,
+    '<=': 4,
+    '>=': 4,
+    is: 4,
+    'is not': 4,
+    '+': 5,
+    '-': 5,
+    '*': 6,
+    '/': 6,
+    '%': 6,
+    '//': 6,
+    '**': 8
+};
+
+// Unary minus binds tighter than `*` but looser than `**`; `not` binds looser than comparisons.
+function precedenceOf(expression: Expression): number {
+    if (expression.kind === 'Binary') {
+        return PRECEDENCE[expression.operator] ?? 0;
+    }
+    if (expression.kind === 'Unary') {
+        return expression.operator === 'not' ? 3 : 7;
+    }
+    return 9;
+}
+
+export function printExpression(expression: Expression): string {
+    switch (expression.kind) {
+        case 'Identifier':
+            return expression.name;
+        case 'Number':
+            return expression.raw;
+        case 'String':
+            return expression.raw;
+        case 'FString':
+            return `f"${expression.parts.map((part) => (typeof part === 'string' ? part : `{${printExpression(part)}}`)).join('')}"`;
+        case 'Boolean':
+            return expression.value ? 'true' : 'false';
+        case 'Null':
+            return 'null';
+        case 'List':
+            return `[${expression.elements.map(printExpression).join(', ')}]`;
+        case 'Object':
+            return `{${expression.properties.map((property) => `${property.key.kind === 'String' ? property.key.raw : property.name}: ${printExpression(property.value)}`).join(', ')}}`;
+        case 'Member':
+            return `${printExpression(expression.object)}.${expression.property.name}`;
+        case 'Index':
+            return `${printExpression(expression.object)}[${printExpression(expression.index)}]`;
+        case 'Call':
+            return `${printExpression(expression.callee)}(${expression.args.map(printExpression).join(', ')})`;
+        case 'Unary': {
+            const operand = expression.operand.kind === 'Binary' ? `(${printExpression(expression.operand)})` : printExpression(expression.operand);
+            return expression.operator === 'not' ? `not ${operand}` : `${expression.operator}${operand}`;
+        }
+        case 'Binary': {
+            const own = PRECEDENCE[expression.operator] ?? 0;
+            const power = expression.operator === '**';
+            const wrap = (side: Expression, parenthesizeEqual: boolean) => {
+                const text = printExpression(side);
+                const precedence = precedenceOf(side);
+                return precedence < own || (precedence === own && parenthesizeEqual) ? `(${text})` : text;
+            };
+            // `**` groups to the right and takes a signed exponent; every other operator groups to the left.
+            const right =
+                power && expression.right.kind === 'Unary' && expression.right.operator !== 'not'
+                    ? printExpression(expression.right)
+                    : wrap(expression.right, !power);
+            return `${wrap(expression.left, power)} ${expression.operator} ${right}`;
+        }
+        case 'Await':
+            return `await ${printExpression(expression.argument)}`;
+        case 'Missing':
+            return '';
+    }
+}
+
+export function printSignature(node: FunctionDeclaration | ClassDeclaration): string {
+    if (node.kind === 'Class') {
+        const bases = node.bases.length > 0 ? `(${node.bases.map(printExpression).join(', ')})` : '';
+        return `class ${node.name.name}${bases}`;
+    }
+    const params = node.params.map((param) =>
+        param.defaultValue ? `${param.name.name} = ${printExpression(param.defaultValue)}` : param.name.name
+    );
+    return `${node.isAsync ? 'async ' : ''}fun ${node.name.name}(${params.join(', ')})`;
+}
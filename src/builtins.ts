@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type BuiltinFunction = {
+    name: string;
+    params: string[];
+    returns: string;
+    doc: string;
+};
+
+export type BuiltinType = {
+    name: string;
+    doc: string;
+};
+
+export type BuiltinModule = {
+    name: string;
+    doc: string;
+};
+
+export type BuiltinCatalog = {
+    format: number;
+    version: string;
+    keywords: string[];
+    functions: BuiltinFunction[];
+    types: BuiltinType[];
+    decorators: BuiltinFunction[];
+    modules: BuiltinModule[];
+};
+
+export const BUILTIN_CATALOG_FILE = 'able-builtins.json';
+export const BUILTIN_CATALOG_FORMAT = 1;
+
+const DEFAULT_CATALOG_PATH = path.join(__dirname, '..', 'resources', BUILTIN_CATALOG_FILE);
+
+type JsonObject = { [key: string]: unknown };
+type NamedObject = JsonObject & { name: string };
+
+function isObject(value: unknown): value is JsonObject {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+    return typeof value === 'string';
+}
+
+function stringList(value: unknown): string[] | null {
+    return Array.isArray(value) ? value.filter(isString) : null;
+}
+
+function parseFunction(value: NamedObject): BuiltinFunction {
+    return {
+        name: value.name,
+        params: stringList(value.params) ?? [],
+        returns: isString(value.returns) ? value.returns : 'Undefined',
+        doc: isString(value.doc) ? value.doc : ''
+    };
+}
+
+// Entries without a name are dropped; a section that is not a list counts as missing.
+function parseNamed<T>(value: unknown, parse: (entry: NamedObject) => T): T[] | null {
+    if (!Array.isArray(value)) {
+        return null;
+    }
+    return value.filter((entry): entry is NamedObject => isObject(entry) && isString(entry.name)).map(parse);
+}
+
+function parseFunctions(value: unknown): BuiltinFunction[] | null {
+    return parseNamed(value, parseFunction);
+}
+
+// Sections missing from `value` are taken from `base`, so an override only needs to list what changed.
+export function parseBuiltinCatalog(value: unknown, base?: BuiltinCatalog): BuiltinCatalog {
+    if (!isObject(value) || value.format !== BUILTIN_CATALOG_FORMAT) {
+        throw new Error(`Unsupported builtin catalog format, expected "format": ${BUILTIN_CATALOG_FORMAT}`);
+    }
+    return {
+        format: BUILTIN_CATALOG_FORMAT,
+        version: isString(value.version) ? value.version : base?.version ?? 'unknown',
+        keywords: stringList(value.keywords) ?? base?.keywords ?? [],
+        functions: parseFunctions(value.functions) ?? base?.functions ?? [],
+        types:
+            parseNamed(value.types, (type) => ({ name: type.name, doc: isString(type.doc) ? type.doc : '' })) ??
+            base?.types ??
+            [],
+        decorators: parseFunctions(value.decorators) ?? base?.decorators ?? [],
+        modules: parseNamed(value.modules, (module) => ({ name: module.name, doc: isString(module.doc) ? module.doc : '' })) ?? base?.modules ?? []
+    };
+}
+
+export function readBuiltinCatalog(catalogPath: string, base?: BuiltinCatalog): BuiltinCatalog {
+    return parseBuiltinCatalog(JSON.parse(fs.readFileSync(catalogPath, 'utf8')), base);
+}
+
+// The first of `dirs` that ships a catalog, e.g. the `lib` folder of an Able toolchain on `ABLEPATH`.
+export function findBuiltinCatalog(dirs: string[]): string | null {
+    for (const dir of dirs) {
+        const candidate = path.join(dir, BUILTIN_CATALOG_FILE);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+    }
+    return null;
+}
+
+export const DEFAULT_BUILTIN_CATALOG = readBuiltinCatalog(DEFAULT_CATALOG_PATH);
+
+let catalog = DEFAULT_BUILTIN_CATALOG;
+
+export function getBuiltinCatalog(): BuiltinCatalog {
+    return catalog;
+}
+
+export function setBuiltinCatalog(next: BuiltinCatalog | null): void {
+    catalog = next ?? DEFAULT_BUILTIN_CATALOG;
+}
+
+export function getBuiltinFunction(name: string): BuiltinFunction | undefined {
+    return catalog.functions.find((fn) => fn.name === name);
+}
+
+export function getBuiltinType(name: string): BuiltinType | undefined {
+    return catalog.types.find((type) => type.name === name);
+}
+
+export function getBuiltinModule(name: string): BuiltinModule | undefined {
+    return catalog.modules.find((candidate) => candidate.name === name);
+}
+
+export function getBuiltinDecorator(name: string): BuiltinFunction | undefined {
+    return catalog.decorators.find((decorator) => decorator.name === name);
+}
+
+export function formatBuiltinSignature(fn: BuiltinFunction, prefix = ''): string {
+    return `${prefix}${fn.name}(${fn.params.join(', ')}) -> ${fn.returns}`;
+}
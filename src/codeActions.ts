@@ -0,0 +1,118 @@
+import { CodeAction, CodeActionKind, Diagnostic, TextEdit } from 'vscode-languageserver/node';
+import { CallExpression, Range, containsPosition, walkExpressions } from './ast';
+import { findUnresolvedReferences, findUnusedImports } from './analysis';
+import { importNameEdit, removeImportEdit } from './imports';
+import { ModuleContext, ModuleResolver, contextForEntry } from './modules';
+
+function overlaps(a: Range, b: Range): boolean {
+    return containsPosition(a, b.start) || containsPosition(b, a.start);
+}
+
+function sameRange(a: Range, b: Range): boolean {
+    return (
+        a.start.line === b.start.line &&
+        a.start.character === b.start.character &&
+        a.end.line === b.end.line &&
+        a.end.character === b.end.character
+    );
+}
+
+// The reported diagnostics a fix resolves, so the editor lists it under them.
+function fixedDiagnostics(diagnostics: Diagnostic[], code: string, range: Range): Diagnostic[] {
+    return diagnostics.filter((diagnostic) => diagnostic.code === code && sameRange(diagnostic.range, range));
+}
+
+function quickFix(context: ModuleContext, title: string, edit: TextEdit, fixes: Diagnostic[], isPreferred = false): CodeAction {
+    return {
+        title,
+        kind: CodeActionKind.QuickFix,
+        edit: { changes: { [context.uri]: [edit] } },
+        ...(fixes.length > 0 ? { diagnostics: fixes } : {}),
+        ...(isPreferred ? { isPreferred } : {})
+    };
+}
+
+// Modules other than this one that declare `name` at the top level.
+function modulesDeclaring(resolver: ModuleResolver, context: ModuleContext, name: string): string[] {
+    const modules: string[] = [];
+    for (const moduleName of resolver.listModules?.() ?? []) {
+        const entry = moduleName === context.moduleName ? undefined : resolver.getModule(moduleName);
+        const declaration = entry ? contextForEntry(entry).binding.scope.declarations.get(name) : undefined;
+        if (declaration && declaration.kind !== 'import') {
+            modules.push(moduleName);
+        }
+    }
+    return modules.sort();
+}
+
+// Parameter names for a new function, taken from the arguments where they are plain names or fields.
+function parameterNames(call: CallExpression): string[] {
+    const names: string[] = [];
+    call.args.forEach((arg, index) => {
+        let name = arg.kind === 'Identifier' ? arg.name : arg.kind === 'Member' ? arg.property.name : `arg${index + 1}`;
+        if (names.includes(name)) {
+            name = `${name}${index + 1}`;
+        }
+        names.push(name);
+    });
+    return names;
+}
+
+// Adds the stub after the top-level statement containing the call, one blank line apart like the formatter.
+function createFunctionEdit(context: ModuleContext, call: CallExpression, name: string, indent: string): TextEdit | null {
+    const statement = context.program.body.find((candidate) => containsPosition(candidate.range, call.range.start));
+    if (!statement) {
+        return null;
+    }
+    const stub = `fun ${name}(${parameterNames(call).join(', ')}):\n${indent}return null`;
+    return TextEdit.insert(statement.range.end, `\n\n${stub}`);
+}
+
+export function getCodeActions(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    range: Range,
+    indent = '    ',
+    diagnostics: Diagnostic[] = []
+): CodeAction[] {
+    const actions: CodeAction[] = [];
+    const unresolved = findUnresolvedReferences(context).filter((reference) => overlaps(reference.range, range));
+    const calls = new Map<string, CallExpression>();
+    if (unresolved.length > 0) {
+        walkExpressions(context.program.body, (expression) => {
+            if (expression.kind === 'Call' && expression.callee.kind === 'Identifier') {
+                calls.set(`${expression.callee.range.start.line}:${expression.callee.range.start.character}`, expression);
+            }
+        });
+    }
+
+    const seen = new Set<string>();
+    for (const reference of unresolved) {
+        if (seen.has(reference.name)) {
+            continue;
+        }
+        seen.add(reference.name);
+        const fixes = fixedDiagnostics(diagnostics, 'undefined-name', reference.range);
+        const modules = modulesDeclaring(resolver, context, reference.name);
+        for (const moduleName of modules) {
+            const edit = importNameEdit(context, moduleName, reference.name);
+            actions.push(quickFix(context, `Import '${reference.name}' from '${moduleName}'`, edit, fixes, modules.length === 1));
+        }
+        // A name another module provides only needs importing.
+        const call = modules.length === 0 ? calls.get(`${reference.range.start.line}:${reference.range.start.character}`) : undefined;
+        const edit = call ? createFunctionEdit(context, call, reference.name, indent) : null;
+        if (edit) {
+            actions.push(quickFix(context, `Create function '${reference.name}'`, edit, fixes));
+        }
+    }
+
+    for (const unused of findUnusedImports(context)) {
+        const target = unused.specifier?.range ?? unused.statement.range;
+        if (overlaps(target, range)) {
+            const edit = removeImportEdit(unused.statement, unused.specifier);
+            const fixes = fixedDiagnostics(diagnostics, 'unused-import', target);
+            actions.push(quickFix(context, `Remove unused import '${unused.declaration.name}'`, edit, fixes, true));
+        }
+    }
+    return actions;
+}
@@ -0,0 +1,230 @@
+import { CompletionItem, CompletionItemKind, CompletionList } from 'vscode-languageserver/node';
+import { Position, printSignature } from './ast';
+import { formatBuiltinSignature, getBuiltinCatalog } from './builtins';
+import { importNameEdit } from './imports';
+import { Resolution, inferType, listMembers, resolveDeclaration } from './inference';
+import { ModuleContext, ModuleResolver, contextForEntry } from './modules';
+import { parse } from './parser';
+import { Scope, scopeAt } from './scope';
+
+export const MAX_AUTO_IMPORTS = 100;
+
+// Sort prefixes: locals, then module top-levels, imported names, builtins and finally auto-imports.
+const RANK = { local: '0', module: '1', imported: '2', builtin: '3', autoImport: '4' };
+
+const IDENTIFIER_CHAR = /[A-Za-z0-9_]/;
+const OPENERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+// Able strings only use double quotes, so an apostrophe is plain text.
+function insideStringOrComment(text: string): boolean {
+    let inString = false;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') {
+                i++;
+            } else if (ch === '"') {
+                inString = false;
+            }
+        } else if (ch === '"') {
+            inString = true;
+        } else if (ch === '#') {
+            return true;
+        }
+    }
+    return inString;
+}
+
+function matchingOpener(text: string, close: number): number {
+    const stack = [OPENERS[text[close]]];
+    for (let i = close - 1; i >= 0; i--) {
+        const ch = text[i];
+        if (ch === '"') {
+            i = text.lastIndexOf('"', i - 1);
+            if (i < 0) {
+                return -1;
+            }
+        } else if (OPENERS[ch]) {
+            stack.push(OPENERS[ch]);
+        } else if (ch === '(' || ch === '[' || ch === '{') {
+            if (stack.pop() !== ch) {
+                return -1;
+            }
+            if (stack.length === 0) {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
+
+export type MemberReceiver = {
+    text: string;
+    character: number;
+};
+
+// The expression before a trailing `.` or `.partial`, e.g. `this.repo.find()` in `this.repo.find().na`.
+export function memberReceiverAt(lineText: string): MemberReceiver | null {
+    const match = lineText.match(/\.[A-Za-z_]?[A-Za-z0-9_]*$/);
+    if (!match || match.index === undefined || insideStringOrComment(lineText.slice(0, match.index))) {
+        return null;
+    }
+    let start = match.index;
+    while (start > 0) {
+        const ch = lineText[start - 1];
+        if (IDENTIFIER_CHAR.test(ch) || ch === '.') {
+            start -= 1;
+        } else if (OPENERS[ch]) {
+            start = matchingOpener(lineText, start - 1);
+            if (start < 0) {
+                return null;
+            }
+        } else {
+            break;
+        }
+    }
+    const text = lineText.slice(start, match.index);
+    return text && !/^[0-9.]/.test(text) ? { text, character: start } : null;
+}
+
+function completionDetail(resolution: Resolution): string | undefined {
+    if (resolution.kind === 'field') {
+        return `set in ${resolution.owner.name.name}.${resolution.field.method.name.name}()`;
+    }
+    const node = resolution.kind === 'symbol' ? resolution.declaration.node : null;
+    return node?.kind === 'Function' || node?.kind === 'Class' ? printSignature(node) : undefined;
+}
+
+function completionKind(resolution: Resolution): CompletionItemKind {
+    switch (resolution.kind) {
+        case 'module':
+            return CompletionItemKind.Module;
+        case 'property':
+            return CompletionItemKind.Property;
+        case 'field':
+            return CompletionItemKind.Field;
+        case 'symbol':
+            switch (resolution.declaration.kind) {
+                case 'function':
+                    return CompletionItemKind.Function;
+                case 'method':
+                    return CompletionItemKind.Method;
+                case 'class':
+                    return CompletionItemKind.Class;
+                case 'import':
+                    return CompletionItemKind.Module;
+                default:
+                    return resolution.declaration.scope.kind === 'class' ? CompletionItemKind.Field : CompletionItemKind.Variable;
+            }
+    }
+}
+
+function memberItems(members: Map<string, Resolution>): CompletionItem[] {
+    return Array.from(members, ([name, resolution]) => ({
+        label: name,
+        kind: completionKind(resolution),
+        detail: completionDetail(resolution)
+    }));
+}
+
+// Exports and submodules of an indexed module. Builtin modules only have members when their sources are indexed.
+export function getModuleCompletions(resolver: ModuleResolver, moduleName: string): CompletionItem[] {
+    return memberItems(listMembers(resolver, { kind: 'module', module: moduleName }));
+}
+
+export function getMemberCompletions(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    receiver: MemberReceiver,
+    line: number
+): CompletionItem[] {
+    const parsed = parse(receiver.text);
+    const statement = parsed.program.body[0];
+    if (parsed.errors.length > 0 || parsed.program.body.length !== 1 || statement.kind !== 'ExpressionStatement') {
+        return [];
+    }
+    const scope = scopeAt(context.binding.scope, { line, character: receiver.character });
+    const type = inferType(resolver, context, statement.expression, scope);
+    if (!type) {
+        return [];
+    }
+    return type.kind === 'module' ? getModuleCompletions(resolver, type.module) : memberItems(listMembers(resolver, type));
+}
+
+function autoImportCompletions(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    prefix: string,
+    visible: Set<string>
+): CompletionList {
+    const items: CompletionItem[] = [];
+    const lower = prefix.toLowerCase();
+    for (const moduleName of resolver.listModules?.() ?? []) {
+        const entry = moduleName === context.moduleName ? undefined : resolver.getModule(moduleName);
+        if (!entry) {
+            continue;
+        }
+        const target = contextForEntry(entry);
+        for (const declaration of target.binding.scope.declarations.values()) {
+            const { name } = declaration;
+            if (declaration.kind === 'import' || name.startsWith('_') || visible.has(name) || !name.toLowerCase().startsWith(lower)) {
+                continue;
+            }
+            if (items.length === MAX_AUTO_IMPORTS) {
+                return { isIncomplete: true, items };
+            }
+            items.push({
+                label: name,
+                labelDetails: { description: moduleName },
+                kind: completionKind({ kind: 'symbol', context: target, declaration }),
+                detail: `Auto-import from ${moduleName}`,
+                sortText: `${RANK.autoImport}${name}`,
+                additionalTextEdits: [importNameEdit(context, moduleName, name)]
+            });
+        }
+    }
+    return { isIncomplete: false, items };
+}
+
+// Names visible at `position`, nearest scope first, plus auto-import suggestions for the typed `prefix`.
+export function getScopeCompletions(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    position: Position,
+    prefix: string
+): CompletionList {
+    const items: CompletionItem[] = [];
+    const visible = new Set<string>();
+    const add = (item: CompletionItem, rank: string) => {
+        if (!visible.has(item.label)) {
+            visible.add(item.label);
+            items.push({ ...item, sortText: `${rank}${item.label}` });
+        }
+    };
+
+    const innermost = scopeAt(context.binding.scope, position);
+    for (let scope: Scope | null = innermost; scope; scope = scope.parent) {
+        // Like `lookup`, class bodies are only visible from the class body itself.
+        if (scope.kind === 'class' && scope !== innermost) {
+            continue;
+        }
+        for (const declaration of scope.declarations.values()) {
+            const resolution = resolveDeclaration(resolver, context, declaration) ?? { kind: 'symbol', context, declaration };
+            const rank = scope.kind !== 'module' ? RANK.local : declaration.kind === 'import' ? RANK.imported : RANK.module;
+            add({ label: declaration.name, kind: completionKind(resolution), detail: completionDetail(resolution) }, rank);
+        }
+    }
+
+    const builtins = getBuiltinCatalog();
+    for (const fn of builtins.functions) {
+        add({ label: fn.name, kind: CompletionItemKind.Function, detail: formatBuiltinSignature(fn) }, RANK.builtin);
+    }
+    builtins.types.forEach((type) => add({ label: type.name, kind: CompletionItemKind.Class }, RANK.builtin));
+    builtins.keywords.forEach((name) => add({ label: name, kind: CompletionItemKind.Keyword }, RANK.builtin));
+
+    if (!prefix) {
+        return { isIncomplete: true, items };
+    }
+    const imports = autoImportCompletions(resolver, context, prefix, visible);
+    return { isIncomplete: imports.isIncomplete, items: [...items, ...imports.items] };
+}
@@ -0,0 +1,155 @@
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag } from 'vscode-languageserver/node';
+import { ParseError, Range, walkStatements } from './ast';
+import { findUnresolvedReferences, findUnusedDeclarations, findUnusedImports } from './analysis';
+import { ModuleContext, ModuleResolver, contextForEntry } from './modules';
+import { ModuleCandidate, ModuleIndex } from './workspaceIndex';
+
+export const DIAGNOSTIC_SOURCE = 'able';
+
+export type ImportCheckOptions = {
+    isBuiltinModule: (name: string) => boolean;
+    hasModulePrefix: (name: string) => boolean;
+};
+
+function moduleExists(resolver: ModuleResolver, options: ImportCheckOptions, name: string): boolean {
+    return !!resolver.getModule(name) || options.isBuiltinModule(name) || options.hasModulePrefix(name);
+}
+
+function exportsName(resolver: ModuleResolver, module: string, name: string): boolean {
+    const entry = resolver.getModule(module);
+    if (!entry) {
+        return true;
+    }
+    const { functions, classes, variables } = entry.symbols;
+    if (functions.has(name) || classes.has(name) || variables.has(name)) {
+        return true;
+    }
+    // Names a module imports itself are part of its namespace, so re-exports resolve too.
+    if (contextForEntry(entry).binding.scope.declarations.get(name)?.kind === 'import') {
+        return true;
+    }
+    return !!resolver.getModule(`${module}.${name}`);
+}
+
+export function checkImports(resolver: ModuleResolver, context: ModuleContext, options: ImportCheckOptions): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    walkStatements(context.program.body, (statement) => {
+        if (statement.kind !== 'Import' && statement.kind !== 'FromImport') {
+            return;
+        }
+        const module = statement.module.name;
+        if (!moduleExists(resolver, options, module)) {
+            diagnostics.push({
+                range: statement.module.range,
+                message: `Cannot resolve module '${module}'`,
+                severity: DiagnosticSeverity.Error,
+                source: DIAGNOSTIC_SOURCE,
+                code: 'unresolved-import'
+            });
+            return;
+        }
+        if (statement.kind !== 'FromImport' || !resolver.getModule(module)) {
+            return;
+        }
+        for (const specifier of statement.names) {
+            if (!exportsName(resolver, module, specifier.name.name)) {
+                diagnostics.push({
+                    range: specifier.name.range,
+                    message: `Module '${module}' has no exported name '${specifier.name.name}'`,
+                    severity: DiagnosticSeverity.Error,
+                    source: DIAGNOSTIC_SOURCE,
+                    code: 'unknown-import-name'
+                });
+            }
+        }
+    });
+
+    return diagnostics;
+}
+
+function unusedWarning(range: Range, message: string, code: string): Diagnostic {
+    return {
+        range,
+        message,
+        severity: DiagnosticSeverity.Warning,
+        source: DIAGNOSTIC_SOURCE,
+        code,
+        tags: [DiagnosticTag.Unnecessary]
+    };
+}
+
+// Errors for names that resolve to nothing, and faded warnings for imports, locals and parameters never read.
+export function checkNames(context: ModuleContext): Diagnostic[] {
+    const diagnostics: Diagnostic[] = findUnresolvedReferences(context).map((reference) => ({
+        range: reference.range,
+        message: `Cannot find name '${reference.name}'`,
+        severity: DiagnosticSeverity.Error,
+        source: DIAGNOSTIC_SOURCE,
+        code: 'undefined-name'
+    }));
+    for (const unused of findUnusedImports(context)) {
+        const range = unused.specifier?.range ?? unused.statement.range;
+        diagnostics.push(unusedWarning(range, `'${unused.declaration.name}' is imported but never used`, 'unused-import'));
+    }
+    for (const unused of findUnusedDeclarations(context)) {
+        const { name, range, kind } = unused.declaration;
+        if (unused.kind === 'parameter') {
+            diagnostics.push(unusedWarning(range, `Parameter '${name}' is never used`, 'unused-parameter'));
+        } else {
+            const verb = kind === 'variable' ? 'assigned' : 'declared';
+            diagnostics.push(unusedWarning(range, `'${name}' is ${verb} but never used`, 'unused-variable'));
+        }
+    }
+    return diagnostics;
+}
+
+function resolutionMessage(moduleName: string, self: ModuleCandidate, other: ModuleCandidate, resolved: boolean): Diagnostic {
+    const [winner, loser] = resolved ? [self, other] : [other, self];
+    const shadowsLibrary = winner.root.kind === 'workspace' && loser.root.kind === 'library';
+    let message: string;
+    if (shadowsLibrary) {
+        message = resolved
+            ? `Module '${moduleName}' shadows the library module at ${other.filePath}`
+            : `Module '${moduleName}' is shadowed by ${other.filePath} in the workspace`;
+    } else {
+        message = resolved
+            ? `Module '${moduleName}' is also provided by ${other.filePath}, which imports of '${moduleName}' never reach`
+            : `Module '${moduleName}' resolves to ${other.filePath}, so this file is never imported as '${moduleName}'`;
+    }
+    return {
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+        message,
+        severity: DiagnosticSeverity.Warning,
+        source: DIAGNOSTIC_SOURCE,
+        code: shadowsLibrary ? 'shadowed-module' : 'module-collision'
+    };
+}
+
+// Warns when another search root provides a module under the same name as this file, on both sides of the conflict.
+export function checkModuleResolution(index: ModuleIndex, filePath: string): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    for (const moduleName of index.moduleNamesForFile(filePath)) {
+        const candidates = index.candidates(moduleName);
+        const self = candidates.find((candidate) => candidate.filePath === filePath);
+        if (!self || candidates.length < 2) {
+            continue;
+        }
+        if (self === candidates[0]) {
+            candidates.slice(1).forEach((other) => diagnostics.push(resolutionMessage(moduleName, self, other, true)));
+        } else {
+            diagnostics.push(resolutionMessage(moduleName, self, candidates[0], false));
+        }
+    }
+    return diagnostics;
+}
+
+export function syntaxDiagnostics(errors: ParseError[]): Diagnostic[] {
+    return errors.map((error) => ({
+        range: error.range,
+        message: error.message,
+        severity: error.severity === 'warning' ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error,
+        source: DIAGNOSTIC_SOURCE,
+        code: 'syntax'
+    }));
+}
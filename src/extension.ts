@@ -1,14 +1,11 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { LanguageClient, LanguageClientOptions, ServerOptions, TransportKind } from 'vscode-languageclient/node';
-
-import { registerFormatter } from './formatter';
+import { INDEX_STATUS_NOTIFICATION, IndexStatus, MODULE_RESOLUTION_REQUEST } from './protocol';
 
 let client: LanguageClient | undefined;
 
 export function activate(context: vscode.ExtensionContext): void {
-    registerFormatter(context);
-
     const serverModule = context.asAbsolutePath(path.join('out', 'server.js'));
     const serverOptions: ServerOptions = {
         run: { module: serverModule, transport: TransportKind.ipc },
@@ -23,12 +20,33 @@ export function activate(context: vscode.ExtensionContext): void {
         documentSelector: [{ scheme: 'file', language: 'able' }],
         synchronize: {
             configurationSection: 'able',
-            fileEvents: vscode.workspace.createFileSystemWatcher('**/*.abl')
+            fileEvents: [
+                vscode.workspace.createFileSystemWatcher('**/*.abl'),
+                vscode.workspace.createFileSystemWatcher('**/.ableignore')
+            ]
+        },
+        initializationOptions: {
+            storagePath: (context.storageUri ?? context.globalStorageUri).fsPath
         }
     };
 
+    const status = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+    showIndexStatus(status, { indexing: true, modules: 0, limited: false });
+    status.show();
+    context.subscriptions.push(status);
+
     client = new LanguageClient('ableLanguageServer', 'Able Language Server', serverOptions, clientOptions);
+    client.onNotification(INDEX_STATUS_NOTIFICATION, (next: IndexStatus) => showIndexStatus(status, next));
     client.start();
+    context.subscriptions.push(
+        vscode.commands.registerCommand('able.showModuleResolution', async () => {
+            const report = await client?.sendRequest<string>(MODULE_RESOLUTION_REQUEST);
+            const doc = await vscode.workspace.openTextDocument({ content: report ?? '', language: 'markdown' });
+            await vscode.window.showTextDocument(doc, { preview: true });
+        }),
+        // Runs the server's `source.organizeImports` action on the active editor.
+        vscode.commands.registerCommand('able.organizeImports', () => vscode.commands.executeCommand('editor.action.organizeImports'))
+    );
     context.subscriptions.push({
         dispose: () => {
             void client?.stop();
@@ -36,6 +54,20 @@ export function activate(context: vscode.ExtensionContext): void {
     });
 }
 
+function showIndexStatus(item: vscode.StatusBarItem, status: IndexStatus): void {
+    const modules = `${status.modules} module${status.modules === 1 ? '' : 's'}`;
+    if (status.indexing) {
+        item.text = '$(sync~spin) Able: indexing';
+        item.tooltip = 'Indexing Able modules';
+    } else if (status.limited) {
+        item.text = `$(warning) Able: ${modules}`;
+        item.tooltip = 'Indexing stopped at able.index.maxFiles or able.index.maxDepth; some modules are missing';
+    } else {
+        item.text = `$(check) Able: ${modules}`;
+        item.tooltip = `${modules} indexed from the workspace, able.stdlibPaths and ABLEPATH`;
+    }
+}
+
 export async function deactivate(): Promise<void> {
     if (client) {
         await client.stop();
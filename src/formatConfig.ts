@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_FORMAT_OPTIONS, FormatOptions } from './formatter';
+
+export const FORMAT_CONFIG_FILE = '.ablefmt.json';
+
+const MINIMUMS: Record<Exclude<keyof FormatOptions, 'useTabs'>, number> = {
+    indentSize: 1,
+    maxBlankLines: 0,
+    blankLinesAroundDefinitions: 0,
+    maxLineWidth: 0
+};
+
+// Keeps only the recognised options with valid values, so a typo never breaks formatting.
+export function parseFormatOptions(value: unknown): Partial<FormatOptions> {
+    const options: Partial<FormatOptions> = {};
+    if (!value || typeof value !== 'object') {
+        return options;
+    }
+    const record = value as Record<string, unknown>;
+    if (typeof record.useTabs === 'boolean') {
+        options.useTabs = record.useTabs;
+    }
+    for (const [key, minimum] of Object.entries(MINIMUMS) as Array<[keyof typeof MINIMUMS, number]>) {
+        const option = record[key];
+        if (typeof option === 'number' && Number.isInteger(option) && option >= minimum) {
+            options[key] = option;
+        }
+    }
+    return options;
+}
+
+export function findFormatConfig(startDir: string): string | null {
+    let dir = path.resolve(startDir);
+    for (;;) {
+        const candidate = path.join(dir, FORMAT_CONFIG_FILE);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return null;
+        }
+        dir = parent;
+    }
+}
+
+export function readFormatConfig(configPath: string): Partial<FormatOptions> {
+    return parseFormatOptions(JSON.parse(fs.readFileSync(configPath, 'utf8')));
+}
+
+// Settings override the defaults and the nearest config file overrides both.
+export function resolveFormatOptions(settings: Partial<FormatOptions>, fileOptions: Partial<FormatOptions>): FormatOptions {
+    return { ...DEFAULT_FORMAT_OPTIONS, ...settings, ...fileOptions };
+}
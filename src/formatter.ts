@@ -1,102 +1,572 @@
-import * as vscode from 'vscode';
+import { Position, Range, TextEdit } from 'vscode-languageserver/node';
+import { Comment, Token, computeLineStarts, positionAt, tokenize } from './lexer';
 
-const INDENT = '    ';
-const INDENT_WIDTH = INDENT.length;
-const BLOCK_KEYWORDS = /^(?:if|elif|else|for|while|class|async\s+fun|fun)\b/;
+const OPENING_BRACKETS = ['(', '[', '{'];
+const CLOSING_BRACKETS = [')', ']', '}'];
+const UNARY_OPERATORS = ['-', '+', '!', '*', '**'];
+const VALUE_KEYWORDS = ['true', 'false', 'null'];
 
-function isBlank(line: string): boolean {
-    return line.trim() === '';
+const BLOCK_KEYWORDS = ['if', 'elif', 'else', 'for', 'while', 'fun', 'class', 'async'];
+export const ON_TYPE_TRIGGERS = [':', ...CLOSING_BRACKETS];
+
+export type FormatOptions = {
+    indentSize: number;
+    useTabs: boolean;
+    maxBlankLines: number;
+    blankLinesAroundDefinitions: number;
+    // 0 disables wrapping.
+    maxLineWidth: number;
+};
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+    indentSize: 4,
+    useTabs: false,
+    maxBlankLines: 1,
+    blankLinesAroundDefinitions: 1,
+    maxLineWidth: 0
+};
+
+// A token, a whole f-string or a comment, emitted exactly as written in the source.
+type Item = {
+    text: string;
+    token: Token | null;
+    offset: number;
+    line: number;
+    endLine: number;
+    trailingComma: boolean;
+};
+
+type StatementKind = 'definition' | 'decorator' | 'other';
+
+// One output line. Only block comments can make it span several source lines.
+type Line = {
+    items: Item[];
+    start: number;
+    end: number;
+    code: boolean;
+    level: number;
+    bracket: string | undefined;
+    // The last token of the statement so far, when this line continues one inside brackets or after a backslash.
+    continues: Item | undefined;
+    statement: StatementKind | null;
+    text: string;
+    blanksBefore: number;
+};
+
+type OpenBracket = {
+    value: string;
+    level: number;
+};
+
+function isOpener(item: Item | undefined): boolean {
+    return !!item?.token && item.token.kind === 'operator' && OPENING_BRACKETS.includes(item.token.value);
+}
+
+function isCloser(item: Item | undefined): boolean {
+    return !!item?.token && item.token.kind === 'operator' && CLOSING_BRACKETS.includes(item.token.value);
+}
+
+function isOperator(item: Item | undefined, ...values: string[]): boolean {
+    return !!item?.token && item.token.kind === 'operator' && values.includes(item.token.value);
+}
+
+function isValue(item: Item | undefined): boolean {
+    const token = item?.token;
+    if (!token) {
+        return false;
+    }
+    switch (token.kind) {
+        case 'name':
+        case 'number':
+        case 'string':
+        case 'fstringStart':
+            return true;
+        case 'keyword':
+            return VALUE_KEYWORDS.includes(token.value);
+        default:
+            return isCloser(item);
+    }
+}
+
+function isUnary(item: Item, previous: Item | undefined): boolean {
+    if (!isOperator(item, ...UNARY_OPERATORS)) {
+        return false;
+    }
+    return !previous || !previous.token || !isValue(previous);
+}
+
+function spaceBetween(previous: Item, next: Item, previousUnary: boolean, inIndex: boolean): string {
+    if (isOperator(next, ',', ':', '.', ...CLOSING_BRACKETS)) {
+        return '';
+    }
+    if (isOpener(previous) || isOperator(previous, '.', '@') || previousUnary) {
+        return '';
+    }
+    if (inIndex && isOperator(previous, ':')) {
+        return '';
+    }
+    if (isOperator(next, '(', '[') && isValue(previous)) {
+        return '';
+    }
+    return ' ';
 }
 
-function getIndentLevel(line: string): number {
+function indent(level: number, options: FormatOptions): string {
+    return options.useTabs ? '\t'.repeat(level) : ' '.repeat(level * options.indentSize);
+}
+
+function indentLevel(source: string, options: FormatOptions): number {
     let width = 0;
-    for (const ch of line) {
+    for (const ch of source) {
         if (ch === ' ') {
             width += 1;
+        } else if (ch === '\t') {
+            width += options.indentSize;
+        } else {
+            break;
+        }
+    }
+    return Math.floor((width + options.indentSize / 2) / options.indentSize);
+}
+
+function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
+
+function lineEnding(text: string): string {
+    return text.includes('\r\n') ? '\r\n' : '\n';
+}
+
+function collectItems(text: string, tokens: Token[], comments: Comment[]): Item[] {
+    const items: Item[] = [];
+    const add = (start: number, end: number, token: Token | null, startLine: number, endLine: number) => {
+        items.push({ text: text.slice(start, end), token, offset: start, line: startLine, endLine, trailingComma: false });
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.kind === 'newline' || token.kind === 'indent' || token.kind === 'dedent' || token.kind === 'eof') {
             continue;
         }
-        if (ch === '\t') {
-            width += INDENT_WIDTH;
+        if (token.kind === 'fstringStart') {
+            let j = i;
+            while (j < tokens.length - 1 && tokens[j].kind !== 'fstringEnd') {
+                j++;
+            }
+            add(token.offset, tokens[j].end, token, token.range.start.line, tokens[j].range.end.line);
+            i = j;
+            continue;
+        }
+        add(token.offset, token.end, token, token.range.start.line, token.range.end.line);
+    }
+    for (const comment of comments) {
+        const end = comment.block ? comment.end : comment.offset + text.slice(comment.offset, comment.end).trimEnd().length;
+        add(comment.offset, end, null, comment.range.start.line, comment.range.end.line);
+    }
+
+    return items.sort((a, b) => a.offset - b.offset);
+}
+
+function groupLines(items: Item[]): Line[] {
+    const lines: Line[] = [];
+    for (const item of items) {
+        const current = lines[lines.length - 1];
+        if (current && item.line <= current.end) {
+            current.items.push(item);
+            current.end = Math.max(current.end, item.endLine);
+            current.code = current.code || !!item.token;
             continue;
         }
-        break;
+        lines.push({
+            items: [item],
+            start: item.line,
+            end: item.endLine,
+            code: !!item.token,
+            level: -1,
+            bracket: undefined,
+            continues: undefined,
+            statement: null,
+            text: '',
+            blanksBefore: 0
+        });
     }
-    return Math.floor((width + INDENT_WIDTH / 2) / INDENT_WIDTH);
+    return lines;
 }
 
-function shouldDecrease(line: string): boolean {
-    const trimmed = line.trim();
-    return /^(elif\b.*:|else:)/.test(trimmed);
+// Marks the last item of every multi-line list or object literal whose closing bracket sits on its own line.
+function markTrailingCommas(lines: Line[]): void {
+    const stack: Array<{ literal: boolean }> = [];
+    let previous: Item | undefined;
+    let previousLine = -1;
+
+    lines.forEach((line, lineIndex) => {
+        line.items.forEach((item, itemIndex) => {
+            if (!item.token) {
+                return;
+            }
+            if (isOpener(item)) {
+                const value = item.token.value;
+                stack.push({ literal: value === '{' || (value === '[' && !isValue(previous)) });
+            } else if (isCloser(item)) {
+                const open = stack.pop();
+                const ownLine = itemIndex === 0 || line.items.slice(0, itemIndex).every((other) => !other.token);
+                if (open?.literal && ownLine && previous && previousLine !== lineIndex && !isOpener(previous) && !isOperator(previous, ',')) {
+                    previous.trailingComma = true;
+                }
+            }
+            previous = item;
+            previousLine = lineIndex;
+        });
+    });
 }
 
-function shouldIncrease(line: string): boolean {
-    const trimmed = line.trim();
+function renderItems(items: Item[], level: number, stack: OpenBracket[], continues?: Item): string {
+    let text = '';
+    let previous = continues;
+    let previousUnary = false;
+    let afterComment = false;
+
+    for (const item of items) {
+        if (text !== '') {
+            const inIndex = stack[stack.length - 1]?.value === '[';
+            text += item.token && previous && !afterComment ? spaceBetween(previous, item, previousUnary, inIndex) : ' ';
+        }
+        text += item.text;
+        if (item.trailingComma) {
+            text += ',';
+        }
+
+        if (isOpener(item)) {
+            stack.push({ value: item.token!.value, level });
+        } else if (isCloser(item)) {
+            stack.pop();
+        }
+        previousUnary = !!item.token && isUnary(item, previous);
+        previous = item.token ? item : previous;
+        afterComment = !item.token;
+    }
 
-    if (trimmed.endsWith('{')) {
-        return true;
+    return text;
+}
+
+function classifyStatement(first: Token): StatementKind {
+    if (first.kind === 'keyword' && (first.value === 'fun' || first.value === 'class' || first.value === 'async')) {
+        return 'definition';
     }
+    return first.kind === 'operator' && first.value === '@' ? 'decorator' : 'other';
+}
 
-    if (trimmed.endsWith('[')) {
-        return true;
+function assignLevels(text: string, tokens: Token[], lines: Line[], options: FormatOptions): void {
+    const sourceLines = splitLines(text);
+    const lineStarts = computeLineStarts(text);
+    const depths = new Map<Token, number>();
+    let depth = 0;
+    for (const token of tokens) {
+        if (token.kind === 'indent') {
+            depth++;
+        } else if (token.kind === 'dedent') {
+            depth--;
+        } else {
+            depths.set(token, depth);
+        }
     }
 
-    if (/:\s*$/.test(trimmed)) {
-        return BLOCK_KEYWORDS.test(trimmed);
+    const stack: OpenBracket[] = [];
+    let continuation: number | null = null;
+    let lastToken: Item | undefined;
+
+    for (const line of lines) {
+        line.bracket = stack[stack.length - 1]?.value;
+        line.continues = stack.length > 0 || continuation !== null ? lastToken : undefined;
+        if (!line.code) {
+            if (stack.length > 0) {
+                line.level = stack[stack.length - 1].level + 1;
+            }
+            line.text = renderItems(line.items, line.level, stack);
+            continue;
+        }
+
+        const first = line.items.find((item) => item.token) as Item;
+        const top = stack[stack.length - 1];
+        if (top) {
+            line.level = line.items[0] === first && isCloser(first) ? top.level : top.level + 1;
+        } else if (continuation !== null) {
+            line.level = continuation + 1;
+        } else {
+            line.level = depths.get(first.token!) ?? 0;
+            if (line.level === 0) {
+                line.statement = classifyStatement(first.token!);
+            }
+        }
+
+        const base: number = continuation ?? line.level;
+        line.text = renderItems(line.items, line.level, stack, line.continues);
+        lastToken = line.items.filter((item) => item.token).pop();
+
+        const last = line.items[line.items.length - 1];
+        const rest = text.slice(last.offset + last.text.length, lineStarts[last.endLine] + sourceLines[last.endLine].length);
+        if (stack.length === 0 && rest.trim() === '\\') {
+            line.text += ' \\';
+            continuation = base;
+        } else {
+            continuation = null;
+        }
     }
 
-    return false;
+    // Own-line comments keep their indentation when it lies between the code around them.
+    lines.forEach((line, index) => {
+        if (line.level >= 0) {
+            return;
+        }
+        const previous = lines.slice(0, index).reverse().find((other) => other.code);
+        const next = lines.slice(index + 1).find((other) => other.code);
+        const low = next?.level ?? 0;
+        const high = Math.max(previous?.level ?? 0, low);
+        line.level = Math.min(Math.max(indentLevel(sourceLines[line.start], options), low), high);
+    });
+}
+
+function isTopLevelComment(line: Line | undefined): boolean {
+    return !!line && !line.code && line.level === 0;
+}
+
+// Comments directly above a top-level statement belong to it; otherwise they stand alone.
+function groupKind(lines: Line[], index: number): StatementKind | 'comment' {
+    let i = index;
+    while (isTopLevelComment(lines[i]) && lines[i + 1] && lines[i + 1].start === lines[i].end + 1) {
+        i++;
+    }
+    return lines[i].statement ?? 'comment';
 }
 
-export function formatAbleDocument(document: vscode.TextDocument): vscode.TextEdit[] {
-    const edits: vscode.TextEdit[] = [];
-    let indent = 0;
-    let lastBlank = false;
+function assignBlankLines(lines: Line[], options: FormatOptions): void {
+    let previousGroup: StatementKind | 'comment' | null = null;
+    let previousStatement: StatementKind | null = null;
 
-    for (let i = 0; i < document.lineCount; i++) {
-        const line = document.lineAt(i);
-        const text = line.text;
+    lines.forEach((line, index) => {
+        const previous = lines[index - 1];
+        line.blanksBefore = previous ? Math.min(line.start - previous.end - 1, options.maxBlankLines) : 0;
+        if (line.statement === null && !isTopLevelComment(line)) {
+            return;
+        }
 
-        if (isBlank(text)) {
-            if (!lastBlank) {
-                edits.push(vscode.TextEdit.replace(line.range, ''));
-                lastBlank = true;
+        if (previousStatement === 'decorator') {
+            line.blanksBefore = 0;
+        } else if (!isTopLevelComment(previous) || line.blanksBefore > 0) {
+            const group = groupKind(lines, index);
+            const definition = group === 'definition' || group === 'decorator';
+            if (previous && (definition || previousGroup === 'definition')) {
+                line.blanksBefore = options.blankLinesAroundDefinitions;
             }
-            continue;
+            previousGroup = definition ? 'definition' : group;
         }
-        lastBlank = false;
+        if (line.statement !== null) {
+            previousStatement = line.statement;
+        }
+    });
+}
+
+function layout(text: string, options: FormatOptions): Line[] | null {
+    const { tokens, comments, errors } = tokenize(text);
+    if (errors.some((error) => error.severity !== 'warning')) {
+        return null;
+    }
+
+    const lines = groupLines(collectItems(text, tokens, comments));
+    markTrailingCommas(lines);
+    assignLevels(text, tokens, lines, options);
+    assignBlankLines(lines, options);
+    return lines;
+}
 
-        const originalIndent = getIndentLevel(text);
+type Segment = {
+    level: number;
+    text: string;
+};
 
-        if (shouldDecrease(text)) {
-            indent = Math.max(0, indent - 1);
+// Finds the first bracket pair opened and closed within `items` that has something inside it.
+function findWrapPoint(items: Item[]): { open: number; close: number } | null {
+    let depth = 0;
+    let open = -1;
+    for (let i = 0; i < items.length; i++) {
+        if (isOpener(items[i])) {
+            if (depth === 0) {
+                open = i;
+            }
+            depth++;
+        } else if (isCloser(items[i]) && depth > 0) {
+            depth--;
+            if (depth === 0 && i > open + 1) {
+                return { open, close: i };
+            }
         }
+    }
+    return null;
+}
 
-        if (originalIndent < indent) {
-            indent = originalIndent;
+function splitArguments(items: Item[]): Item[][] {
+    const groups: Item[][] = [[]];
+    let depth = 0;
+    for (const item of items) {
+        groups[groups.length - 1].push(item);
+        if (isOpener(item)) {
+            depth++;
+        } else if (isCloser(item)) {
+            depth--;
+        } else if (depth === 0 && isOperator(item, ',')) {
+            groups.push([]);
         }
+    }
+    return groups.filter((group) => group.length > 0);
+}
 
-        const formatted = INDENT.repeat(indent) + text.trim();
-        edits.push(vscode.TextEdit.replace(line.range, formatted));
+// Breaks a line that is too wide after its first bracket, one argument or element per line.
+function wrapItems(
+    items: Item[],
+    level: number,
+    bracket: string | undefined,
+    suffix: string,
+    options: FormatOptions,
+    continues?: Item
+): Segment[] {
+    const text = renderItems(items, level, bracket ? [{ value: bracket, level }] : [], continues) + suffix;
+    const width = level * options.indentSize + text.length;
+    const point = width > options.maxLineWidth ? findWrapPoint(items) : null;
+    if (!point) {
+        return [{ level, text }];
+    }
 
-        if (shouldIncrease(text)) {
-            indent++;
+    const opener = items[point.open].token!.value;
+    const literal = opener === '{' || (opener === '[' && !isValue(items[point.open - 1]));
+    const groups = splitArguments(items.slice(point.open + 1, point.close));
+    const segments = wrapItems(items.slice(0, point.open + 1), level, bracket, '', options, continues);
+    groups.forEach((group, index) => {
+        const last = group[group.length - 1];
+        const comma = index === groups.length - 1 && literal && !isOperator(last, ',') && !last.trailingComma ? ',' : '';
+        segments.push(...wrapItems(group, level + 1, opener, comma, options));
+    });
+    segments.push(...wrapItems(items.slice(point.close), level, bracket, suffix, options));
+    return segments;
+}
+
+function renderLines(lines: Line[], options: FormatOptions): string[] {
+    const output: string[] = [];
+    for (const line of lines) {
+        for (let i = 0; i < line.blanksBefore; i++) {
+            output.push('');
+        }
+        const wrappable = options.maxLineWidth > 0 && line.code && line.start === line.end && !line.text.endsWith('\\');
+        const segments = wrappable ? wrapItems(line.items, line.level, line.bracket, '', options, line.continues) : [line];
+        for (const segment of segments) {
+            output.push(indent(segment.level, options) + segment.text);
         }
     }
+    return output;
+}
 
-    const lastLine = document.lineAt(document.lineCount - 1);
-    if (lastLine.text !== '') {
-        edits.push(vscode.TextEdit.insert(lastLine.range.end, '\n'));
+// Replaces text[start, end) with `replacement`, trimmed to the part that actually changes.
+function replaceSpan(text: string, start: number, end: number, replacement: string): TextEdit[] {
+    const original = text.slice(start, end);
+    if (original === replacement) {
+        return [];
     }
+    let prefix = 0;
+    while (prefix < original.length && prefix < replacement.length && original[prefix] === replacement[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (
+        suffix < original.length - prefix &&
+        suffix < replacement.length - prefix &&
+        original[original.length - 1 - suffix] === replacement[replacement.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+    const lineStarts = computeLineStarts(text);
+    const range = {
+        start: positionAt(lineStarts, start + prefix),
+        end: positionAt(lineStarts, end - suffix)
+    };
+    return [TextEdit.replace(range, replacement.slice(prefix, replacement.length - suffix))];
+}
 
-    return edits;
+export function formatDocument(text: string, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): TextEdit[] {
+    const lines = layout(text, options);
+    if (!lines) {
+        return [];
+    }
+    const eol = lineEnding(text);
+    const output = renderLines(lines, options);
+    return replaceSpan(text, 0, text.length, output.length > 0 ? output.join(eol) + eol : '');
 }
 
-export function registerFormatter(context: vscode.ExtensionContext): void {
-    context.subscriptions.push(
-        vscode.languages.registerDocumentFormattingEditProvider('able', {
-            provideDocumentFormattingEdits(document) {
-                return formatAbleDocument(document);
-            }
-        })
-    );
+export function formatRange(text: string, range: Range, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): TextEdit[] {
+    const lines = layout(text, options);
+    if (!lines) {
+        return [];
+    }
+    const last = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+    const first = lines.findIndex((line) => line.end >= range.start.line && line.start <= last);
+    if (first < 0) {
+        return [];
+    }
+    let end = first;
+    while (end + 1 < lines.length && lines[end + 1].start <= last) {
+        end++;
+    }
+
+    const sourceLines = splitLines(text);
+    const lineStarts = computeLineStarts(text);
+    const startOffset = lineStarts[first > 0 ? lines[first - 1].end + 1 : 0];
+    const endOffset = lineStarts[lines[end].end] + sourceLines[lines[end].end].length;
+    const output = renderLines(lines.slice(first, end + 1), options);
+    return replaceSpan(text, startOffset, endOffset, output.join(lineEnding(text)));
+}
+
+// `elif`/`else` line up with the closest `if` or `elif` that is not nested deeper than they are.
+function matchingIfLevel(lines: Line[], index: number): number | null {
+    for (let i = index - 1; i >= 0; i--) {
+        const first = lines[i].items[0].token;
+        if (lines[i].level <= lines[index].level && first?.kind === 'keyword' && (first.value === 'if' || first.value === 'elif')) {
+            return lines[i].level;
+        }
+    }
+    return null;
+}
+
+export function formatOnType(
+    text: string,
+    position: Position,
+    ch: string,
+    options: FormatOptions = DEFAULT_FORMAT_OPTIONS
+): TextEdit[] {
+    const lines = layout(text, options);
+    const index = lines ? lines.findIndex((line) => line.start === position.line) : -1;
+    if (!lines || index < 0) {
+        return [];
+    }
+
+    const line = lines[index];
+    const first = line.items[0].token;
+    let level: number | null = null;
+    const header = ch === ':' && first?.kind === 'keyword' && BLOCK_KEYWORDS.includes(first.value) && !line.bracket && line.text.endsWith(':');
+    if (header && (first.value === 'elif' || first.value === 'else')) {
+        level = matchingIfLevel(lines, index);
+    } else if (header) {
+        // Any other block header keeps its block but gets that block's indentation, in the configured style.
+        level = line.level;
+    } else if (CLOSING_BRACKETS.includes(ch) && first?.value === ch) {
+        level = line.level;
+    }
+    if (level === null) {
+        return [];
+    }
+
+    const source = splitLines(text)[position.line];
+    const current = source.length - source.trimStart().length;
+    const desired = indent(level, options);
+    if (source.slice(0, current) === desired) {
+        return [];
+    }
+    return [TextEdit.replace({ start: { line: position.line, character: 0 }, end: { line: position.line, character: current } }, desired)];
 }
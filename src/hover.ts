@@ -0,0 +1,159 @@
+import { ClassDeclaration, FunctionDeclaration, Position, Range, printExpression, printSignature } from './ast';
+import { formatBuiltinSignature, getBuiltinDecorator, getBuiltinFunction, getBuiltinType } from './builtins';
+import { Resolution } from './inference';
+import { Comment } from './lexer';
+import { ModuleContext, ModuleResolver } from './modules';
+import { targetAt } from './navigation';
+import { enclosingClass } from './scope';
+
+export type HoverResult = {
+    contents: { kind: 'markdown'; value: string };
+    range: Range;
+};
+
+const MAX_VALUE_LENGTH = 80;
+
+function codeBlock(text: string): string {
+    return ['```able', text, '```'].join('\n');
+}
+
+function cleanComment(comment: Comment): string[] {
+    const lines = comment.text.split(/\r?\n/);
+    if (!comment.block) {
+        return [lines[0].replace(/^\s/, '').trimEnd()];
+    }
+    const body = lines.map((line) => line.trimEnd());
+    while (body.length > 0 && body[0].trim() === '') {
+        body.shift();
+    }
+    while (body.length > 0 && body[body.length - 1].trim() === '') {
+        body.pop();
+    }
+    const indents = body.filter((line) => line.trim() !== '').map((line) => line.length - line.trimStart().length);
+    const common = indents.length > 0 ? Math.min(...indents) : 0;
+    return body.map((line) => line.slice(Math.min(common, line.length - line.trimStart().length)));
+}
+
+export function leadingComment(comments: Comment[], line: number): string | null {
+    const blocks: string[][] = [];
+    let expected = line - 1;
+    for (let i = comments.length - 1; i >= 0; i--) {
+        const comment = comments[i];
+        if (comment.range.start.line >= line) {
+            continue;
+        }
+        if (comment.range.end.line !== expected || !comment.ownLine) {
+            break;
+        }
+        blocks.unshift(cleanComment(comment));
+        expected = comment.range.start.line - 1;
+    }
+    if (blocks.length === 0) {
+        return null;
+    }
+    return blocks.flat().join('\n').trim() || null;
+}
+
+function truncate(text: string): string {
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 3)}...` : text;
+}
+
+function definedIn(context: ModuleContext): string | null {
+    return context.moduleName ? `*Defined in* \`${context.moduleName}\`` : null;
+}
+
+function describeResolution(resolution: Resolution): string[] {
+    switch (resolution.kind) {
+        case 'module': {
+            const parts = [codeBlock(`(module) ${resolution.module}`)];
+            if (resolution.entry) {
+                parts.push(`\`${resolution.entry.filePath}\``);
+            }
+            return parts;
+        }
+        case 'property':
+            return [
+                codeBlock(`(property) ${resolution.property.name}: ${truncate(printExpression(resolution.property.value))}`),
+                ...[definedIn(resolution.context)].filter((part): part is string => !!part)
+            ];
+        case 'field': {
+            const value = resolution.field.assignments[0]?.value;
+            return [
+                codeBlock(`(field) ${resolution.field.name}${value ? ` = ${truncate(printExpression(value))}` : ''}`),
+                `Field of \`${resolution.owner.name.name}\``,
+                ...[definedIn(resolution.context)].filter((part): part is string => !!part)
+            ];
+        }
+        case 'symbol': {
+            const { context, declaration } = resolution;
+            const parts: string[] = [];
+            let docLine: number | null = null;
+            switch (declaration.kind) {
+                case 'function':
+                case 'method':
+                case 'class': {
+                    const node = declaration.node as FunctionDeclaration | ClassDeclaration;
+                    parts.push(codeBlock(printSignature(node)));
+                    docLine = node.range.start.line;
+                    if (declaration.kind === 'method') {
+                        const owner = enclosingClass(declaration.scope);
+                        if (owner) {
+                            parts.push(`Method of \`${owner.name.name}\``);
+                        }
+                    }
+                    break;
+                }
+                case 'variable': {
+                    const value = declaration.value ? ` = ${truncate(printExpression(declaration.value))}` : '';
+                    parts.push(codeBlock(`(variable) ${declaration.name}${value}`));
+                    if (declaration.scope.kind === 'module' && declaration.node) {
+                        docLine = declaration.node.range.start.line;
+                    }
+                    break;
+                }
+                case 'parameter': {
+                    const value = declaration.value ? ` = ${truncate(printExpression(declaration.value))}` : '';
+                    parts.push(codeBlock(`(parameter) ${declaration.name}${value}`));
+                    break;
+                }
+            }
+            const doc = docLine === null ? null : leadingComment(context.comments, docLine);
+            if (doc) {
+                parts.push(doc);
+            }
+            const origin = definedIn(context);
+            if (origin) {
+                parts.push(origin);
+            }
+            return parts;
+        }
+    }
+}
+
+function describeBuiltin(name: string): string[] | null {
+    const fn = getBuiltinFunction(name);
+    if (fn) {
+        return [codeBlock(formatBuiltinSignature(fn)), fn.doc, '*Builtin function*'];
+    }
+    const type = getBuiltinType(name);
+    if (type) {
+        return [codeBlock(`(type) ${type.name}`), type.doc, '*Builtin type*'];
+    }
+    const decorator = getBuiltinDecorator(name);
+    if (decorator) {
+        return [codeBlock(formatBuiltinSignature(decorator, '@')), decorator.doc, '*Builtin decorator*'];
+    }
+    return null;
+}
+
+export function getHover(resolver: ModuleResolver, context: ModuleContext, position: Position): HoverResult | null {
+    const target = targetAt(resolver, context, position);
+    if (!target) {
+        return null;
+    }
+    const parts = target.resolution ? describeResolution(target.resolution) : describeBuiltin(target.name);
+    if (!parts) {
+        return null;
+    }
+    return { contents: { kind: 'markdown', value: parts.join('\n\n') }, range: target.range };
+}
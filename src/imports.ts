@@ -0,0 +1,49 @@
+import { Position, TextEdit } from 'vscode-languageserver/node';
+import { FromImportStatement, ImportSpecifier, ImportStatement, Statement } from './ast';
+import { ModuleContext } from './modules';
+
+function isImport(statement: Statement): boolean {
+    return statement.kind === 'Import' || statement.kind === 'FromImport';
+}
+
+// Where the statement's line ends, past any comment that trails it.
+function lineEnd(context: ModuleContext, statement: Statement): Position {
+    const end = statement.range.end;
+    const trailing = context.comments.find(
+        (comment) => comment.range.start.line === end.line && comment.range.start.character >= end.character
+    );
+    return trailing ? trailing.range.end : end;
+}
+
+// Adds `name` to an existing `from module import ...` line, or starts a new one below the last top-level import.
+export function importNameEdit(context: ModuleContext, module: string, name: string): TextEdit {
+    const body = context.program.body;
+    const existing = body.find(
+        (statement): statement is FromImportStatement =>
+            statement.kind === 'FromImport' && statement.module.name === module && statement.names.length > 0
+    );
+    if (existing) {
+        return TextEdit.insert(existing.names[existing.names.length - 1].range.end, `, ${name}`);
+    }
+    const imports = body.filter(isImport);
+    if (imports.length > 0) {
+        return TextEdit.insert(lineEnd(context, imports[imports.length - 1]), `\nfrom ${module} import ${name}`);
+    }
+    return TextEdit.insert({ line: 0, character: 0 }, `from ${module} import ${name}\n`);
+}
+
+// Drops one specifier from a `from x import a, b` list, or the whole statement's lines when nothing would be left.
+export function removeImportEdit(statement: ImportStatement | FromImportStatement, specifier: ImportSpecifier | null): TextEdit {
+    const names = statement.kind === 'FromImport' ? statement.names : [];
+    const index = specifier ? names.indexOf(specifier) : -1;
+    if (index < 0 || names.length === 1) {
+        return TextEdit.del({
+            start: { line: statement.range.start.line, character: 0 },
+            end: { line: statement.range.end.line + 1, character: 0 }
+        });
+    }
+    if (index < names.length - 1) {
+        return TextEdit.del({ start: names[index].range.start, end: names[index + 1].range.start });
+    }
+    return TextEdit.del({ start: names[index - 1].range.end, end: names[index].range.end });
+}
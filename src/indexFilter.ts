@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const ABLEIGNORE_FILE = '.ableignore';
+
+export const DEFAULT_INDEX_EXCLUDE = [
+    '**/.*',
+    '**/build',
+    '**/coverage',
+    '**/dist',
+    '**/node_modules',
+    '**/out',
+    '**/vendor'
+];
+
+export type IndexFilterSettings = {
+    include: string[];
+    exclude: string[];
+};
+
+export type IgnoreRule = {
+    pattern: RegExp;
+    negated: boolean;
+};
+
+// Tells whether a path relative to its search root should be indexed; folders are only checked against exclusions.
+export type PathFilter = (relativePath: string, isDirectory: boolean) => boolean;
+
+// Supports `*`, `**`, `?` and `{a,b}`; paths use `/` separators.
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*' && glob[i + 1] === '*') {
+            const folders = glob[i + 2] === '/';
+            source += folders ? '(?:.*/)?' : '.*';
+            i += folders ? 2 : 1;
+        } else if (ch === '*') {
+            source += '[^/]*';
+        } else if (ch === '?') {
+            source += '[^/]';
+        } else if (ch === '{') {
+            source += '(?:';
+            braces += 1;
+        } else if (ch === '}' && braces > 0) {
+            source += ')';
+            braces -= 1;
+        } else if (ch === ',' && braces > 0) {
+            source += '|';
+        } else {
+            source += ch.replace(/[.+^$|()[\]\\{}]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}${')'.repeat(braces)}$`);
+}
+
+// `.ableignore` follows `.gitignore`: a pattern without a slash matches at any depth, `/x` only at the root, `!` re-includes.
+export function parseIgnoreFile(text: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const raw of text.split(/\r?\n/)) {
+        let line = raw.trim();
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+        const negated = line.startsWith('!');
+        if (negated) {
+            line = line.slice(1);
+        }
+        line = line.replace(/\/+$/, '');
+        if (!line) {
+            continue;
+        }
+        const anchored = line.includes('/');
+        line = line.replace(/^\/+/, '');
+        rules.push({ pattern: globToRegExp(anchored ? line : `**/${line}`), negated });
+    }
+    return rules;
+}
+
+export async function readIgnoreFile(root: string): Promise<IgnoreRule[]> {
+    try {
+        return parseIgnoreFile(await fs.promises.readFile(path.join(root, ABLEIGNORE_FILE), 'utf8'));
+    } catch {
+        return [];
+    }
+}
+
+function isIgnored(rules: IgnoreRule[], relativePath: string): boolean {
+    let ignored = false;
+    for (const rule of rules) {
+        if (rule.negated === ignored && rule.pattern.test(relativePath)) {
+            ignored = !rule.negated;
+        }
+    }
+    return ignored;
+}
+
+// A path is excluded when it or any folder above it matches an exclusion.
+export function createPathFilter(settings: IndexFilterSettings, ignoreRules: IgnoreRule[] = []): PathFilter {
+    const include = settings.include.map(globToRegExp);
+    const exclude = settings.exclude.map(globToRegExp);
+    return (relativePath, isDirectory) => {
+        const parts = relativePath.split('/');
+        for (let i = 1; i <= parts.length; i++) {
+            const prefix = parts.slice(0, i).join('/');
+            if (exclude.some((pattern) => pattern.test(prefix)) || isIgnored(ignoreRules, prefix)) {
+                return false;
+            }
+        }
+        return isDirectory || include.length === 0 || include.some((pattern) => pattern.test(relativePath));
+    };
+}
@@ -0,0 +1,479 @@
+import {
+    CallExpression,
+    ClassDeclaration,
+    Expression,
+    FunctionDeclaration,
+    ObjectLiteral,
+    Program,
+    Property,
+    Range,
+    fieldAssignments,
+    walkExpressions,
+    walkOwnStatements
+} from './ast';
+import { ModuleContext, ModuleEntry, ModuleResolver, SymbolLocation, contextForEntry, moduleLocation } from './modules';
+import { Declaration, Scope, enclosingClass, lookup, scopeAt } from './scope';
+
+const MAX_DEPTH = 16;
+
+export const CONSTRUCTOR_NAMES = ['init', '__init__', 'constructor'];
+
+// A field is created by assigning to `this.name` in one of the class's methods.
+export type Field = {
+    name: string;
+    range: Range;
+    method: FunctionDeclaration;
+    assignments: Array<{ value: Expression; scope: Scope }>;
+};
+
+export type Resolution =
+    | { kind: 'module'; module: string; entry: ModuleEntry | undefined }
+    | { kind: 'symbol'; context: ModuleContext; declaration: Declaration }
+    | { kind: 'property'; context: ModuleContext; property: Property }
+    | { kind: 'field'; context: ModuleContext; owner: ClassDeclaration; field: Field };
+
+export type ValueType =
+    | { kind: 'module'; module: string }
+    | { kind: 'class'; context: ModuleContext; node: ClassDeclaration }
+    | { kind: 'instance'; context: ModuleContext; node: ClassDeclaration }
+    | { kind: 'object'; context: ModuleContext; node: ObjectLiteral };
+
+export function resolutionLocation(resolution: Resolution): SymbolLocation | null {
+    switch (resolution.kind) {
+        case 'module':
+            return resolution.entry ? moduleLocation(resolution.entry) : null;
+        case 'symbol':
+            return { uri: resolution.context.uri, range: resolution.declaration.range };
+        case 'property':
+            return { uri: resolution.context.uri, range: resolution.property.key.range };
+        case 'field':
+            return { uri: resolution.context.uri, range: resolution.field.range };
+    }
+}
+
+export function resolveModule(resolver: ModuleResolver, module: string): Resolution {
+    return { kind: 'module', module, entry: resolver.getModule(module) };
+}
+
+export function resolveDeclaration(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    declaration: Declaration,
+    depth = 0
+): Resolution | null {
+    const binding = declaration.importBinding;
+    if (!binding) {
+        return { kind: 'symbol', context, declaration };
+    }
+    if (binding.name === null) {
+        return resolveModule(resolver, binding.module);
+    }
+    return resolveExport(resolver, binding.module, binding.name, depth + 1);
+}
+
+export function resolveExport(resolver: ModuleResolver, module: string, name: string, depth = 0): Resolution | null {
+    if (depth > MAX_DEPTH) {
+        return null;
+    }
+    const entry = resolver.getModule(module);
+    if (entry) {
+        const context = contextForEntry(entry);
+        const declaration = context.binding.scope.declarations.get(name);
+        if (declaration) {
+            return resolveDeclaration(resolver, context, declaration, depth);
+        }
+    }
+    const submodule = resolver.getModule(`${module}.${name}`);
+    if (submodule) {
+        return { kind: 'module', module: submodule.moduleName, entry: submodule };
+    }
+    // A package folder without `__init__.abl` still has its nested modules as members.
+    const prefix = `${module}.${name}.`;
+    if (Array.from(resolver.listModules?.() ?? []).some((candidate) => candidate.startsWith(prefix))) {
+        return resolveModule(resolver, `${module}.${name}`);
+    }
+    return null;
+}
+
+export function scopeOf(context: ModuleContext, node: Scope['node']): Scope | null {
+    const pending = [context.binding.scope];
+    while (pending.length > 0) {
+        const scope = pending.pop() as Scope;
+        if (scope.node === node) {
+            return scope;
+        }
+        pending.push(...scope.children);
+    }
+    return null;
+}
+
+const fieldCache = new WeakMap<ClassDeclaration, Map<string, Field>>();
+
+export function classFields(context: ModuleContext, node: ClassDeclaration): Map<string, Field> {
+    const cached = fieldCache.get(node);
+    if (cached) {
+        return cached;
+    }
+    const fields = new Map<string, Field>();
+    for (const scope of scopeOf(context, node)?.children ?? []) {
+        const method = scope.node;
+        if (method.kind !== 'Function') {
+            continue;
+        }
+        for (const { property, assignment } of fieldAssignments(method)) {
+            if (assignment.operator !== '=') {
+                continue;
+            }
+            let field = fields.get(property.name);
+            if (!field) {
+                field = { name: property.name, range: property.range, method, assignments: [] };
+                fields.set(field.name, field);
+            }
+            field.assignments.push({ value: assignment.value, scope });
+        }
+    }
+    fieldCache.set(node, fields);
+    return fields;
+}
+
+const callCache = new WeakMap<Program, CallExpression[]>();
+
+function callsIn(program: Program): CallExpression[] {
+    let calls = callCache.get(program);
+    if (!calls) {
+        const found: CallExpression[] = [];
+        walkExpressions(program.body, (expression) => {
+            if (expression.kind === 'Call') {
+                found.push(expression);
+            }
+        });
+        calls = found;
+        callCache.set(program, calls);
+    }
+    return calls;
+}
+
+function calleeName(callee: Expression): string | null {
+    if (callee.kind === 'Identifier') {
+        return callee.name;
+    }
+    return callee.kind === 'Member' ? callee.property.name : null;
+}
+
+// Infers a parameter from the arguments passed to its function elsewhere in the same module.
+function parameterType(resolver: ModuleResolver, context: ModuleContext, declaration: Declaration, depth: number): ValueType | null {
+    const fn = declaration.scope.node;
+    if (fn.kind !== 'Function') {
+        return null;
+    }
+    const index = fn.params.findIndex((param) => param.name.name === declaration.name);
+    const parent = declaration.scope.parent;
+    const owner = parent?.kind === 'class' ? (parent.node as ClassDeclaration) : null;
+    const constructs = !!owner && CONSTRUCTOR_NAMES.includes(fn.name.name);
+    for (const call of callsIn(context.program)) {
+        const name = calleeName(call.callee);
+        if (name !== fn.name.name && !(constructs && name === owner?.name.name)) {
+            continue;
+        }
+        const scope = scopeAt(context.binding.scope, call.range.start);
+        let receiver: ValueType | null = null;
+        let callee: Resolution | null = null;
+        if (call.callee.kind === 'Member') {
+            receiver = inferType(resolver, context, call.callee.object, scope, depth + 1);
+            callee = receiver ? resolveMember(resolver, receiver, call.callee.property.name, depth + 1) : null;
+        } else {
+            callee = resolveExpression(resolver, context, call.callee, scope, depth + 1);
+        }
+        if (callee?.kind !== 'symbol') {
+            continue;
+        }
+        let offset: number;
+        if (callee.declaration.node === fn) {
+            offset = owner && receiver?.kind === 'instance' ? 1 : 0;
+        } else if (constructs && callee.declaration.node === owner) {
+            offset = 1;
+        } else {
+            continue;
+        }
+        const arg = call.args[index - offset];
+        const type = arg ? inferType(resolver, context, arg, scope, depth + 1) : null;
+        if (type) {
+            return type;
+        }
+    }
+    return null;
+}
+
+export function typeOfResolution(resolver: ModuleResolver, resolution: Resolution, depth = 0): ValueType | null {
+    if (depth > MAX_DEPTH) {
+        return null;
+    }
+    switch (resolution.kind) {
+        case 'module':
+            return { kind: 'module', module: resolution.module };
+        case 'property':
+            return inferType(resolver, resolution.context, resolution.property.value, resolution.context.binding.scope, depth + 1);
+        case 'field':
+            for (const assignment of resolution.field.assignments) {
+                const type = inferType(resolver, resolution.context, assignment.value, assignment.scope, depth + 1);
+                if (type) {
+                    return type;
+                }
+            }
+            return null;
+        case 'symbol': {
+            const { context, declaration } = resolution;
+            if (declaration.kind === 'class') {
+                return { kind: 'class', context, node: declaration.node as ClassDeclaration };
+            }
+            if (declaration.kind === 'parameter' && declaration.name === 'this') {
+                const owner = enclosingClass(declaration.scope);
+                return owner ? { kind: 'instance', context, node: owner } : null;
+            }
+            if (declaration.kind !== 'variable' && declaration.kind !== 'parameter') {
+                return null;
+            }
+            for (const value of declaration.values) {
+                const type = inferType(resolver, context, value, declaration.scope, depth + 1);
+                if (type) {
+                    return type;
+                }
+            }
+            return declaration.kind === 'parameter' ? parameterType(resolver, context, declaration, depth + 1) : null;
+        }
+    }
+}
+
+// The type produced by calling the resolved value: an instance for classes, the returned value for functions.
+export function returnType(resolver: ModuleResolver, callee: Resolution, depth = 0): ValueType | null {
+    if (depth > MAX_DEPTH || callee.kind !== 'symbol') {
+        return null;
+    }
+    const { context, declaration } = callee;
+    const node = declaration.node;
+    if (node?.kind === 'Class' && declaration.kind === 'class') {
+        return { kind: 'instance', context, node };
+    }
+    if (node?.kind !== 'Function' || (declaration.kind !== 'function' && declaration.kind !== 'method')) {
+        return null;
+    }
+    const scope = scopeOf(context, node);
+    if (!scope) {
+        return null;
+    }
+    const returned: Expression[] = [];
+    walkOwnStatements(node.body, (statement) => {
+        if (statement.kind === 'Return' && statement.value) {
+            returned.push(statement.value);
+        }
+    });
+    for (const value of returned) {
+        const type = inferType(resolver, context, value, scope, depth + 1);
+        if (type) {
+            return type;
+        }
+    }
+    return null;
+}
+
+export function resolveExpression(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    expression: Expression,
+    scope: Scope,
+    depth = 0
+): Resolution | null {
+    if (depth > MAX_DEPTH) {
+        return null;
+    }
+    if (expression.kind === 'Identifier') {
+        const declaration = lookup(scope, expression.name);
+        return declaration ? resolveDeclaration(resolver, context, declaration, depth) : null;
+    }
+    if (expression.kind === 'Member') {
+        const owner = inferType(resolver, context, expression.object, scope, depth + 1);
+        return owner ? resolveMember(resolver, owner, expression.property.name, depth + 1) : null;
+    }
+    return null;
+}
+
+export function inferType(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    expression: Expression,
+    scope: Scope,
+    depth = 0
+): ValueType | null {
+    if (depth > MAX_DEPTH) {
+        return null;
+    }
+    switch (expression.kind) {
+        case 'Identifier':
+        case 'Member': {
+            const resolution = resolveExpression(resolver, context, expression, scope, depth);
+            if (resolution) {
+                return typeOfResolution(resolver, resolution, depth + 1);
+            }
+            // Methods declared without a receiver parameter still see `this` as the enclosing instance.
+            const owner = expression.kind === 'Identifier' && expression.name === 'this' ? enclosingClass(scope) : null;
+            return owner ? { kind: 'instance', context, node: owner } : null;
+        }
+        case 'Call': {
+            const callee = resolveExpression(resolver, context, expression.callee, scope, depth + 1);
+            if (callee) {
+                return returnType(resolver, callee, depth + 1);
+            }
+            const type = inferType(resolver, context, expression.callee, scope, depth + 1);
+            return type?.kind === 'class' ? { kind: 'instance', context: type.context, node: type.node } : null;
+        }
+        case 'Await':
+            return inferType(resolver, context, expression.argument, scope, depth + 1);
+        case 'Object':
+            return { kind: 'object', context, node: expression };
+        default:
+            return null;
+    }
+}
+
+export function baseClasses(resolver: ModuleResolver, context: ModuleContext, node: ClassDeclaration, depth = 0): ValueType[] {
+    const scope = scopeOf(context, node)?.parent ?? context.binding.scope;
+    const bases: ValueType[] = [];
+    for (const base of node.bases) {
+        const type = inferType(resolver, context, base, scope, depth + 1);
+        if (type?.kind === 'class') {
+            bases.push(type);
+        }
+    }
+    return bases;
+}
+
+export function findMethod(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    node: ClassDeclaration,
+    name: string,
+    depth = 0
+): Resolution | null {
+    if (depth > MAX_DEPTH) {
+        return null;
+    }
+    const declaration = scopeOf(context, node)?.declarations.get(name);
+    if (declaration) {
+        return { kind: 'symbol', context, declaration };
+    }
+    for (const base of baseClasses(resolver, context, node, depth)) {
+        if (base.kind === 'class') {
+            const found = findMethod(resolver, base.context, base.node, name, depth + 1);
+            if (found) {
+                return found;
+            }
+        }
+    }
+    return null;
+}
+
+export function findField(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    node: ClassDeclaration,
+    name: string,
+    depth = 0
+): Resolution | null {
+    if (depth > MAX_DEPTH) {
+        return null;
+    }
+    const field = classFields(context, node).get(name);
+    if (field) {
+        return { kind: 'field', context, owner: node, field };
+    }
+    for (const base of baseClasses(resolver, context, node, depth)) {
+        if (base.kind === 'class') {
+            const found = findField(resolver, base.context, base.node, name, depth + 1);
+            if (found) {
+                return found;
+            }
+        }
+    }
+    return null;
+}
+
+export function resolveMember(resolver: ModuleResolver, type: ValueType, name: string, depth = 0): Resolution | null {
+    switch (type.kind) {
+        case 'module':
+            return resolveExport(resolver, type.module, name, depth);
+        case 'class':
+            return findMethod(resolver, type.context, type.node, name, depth);
+        case 'instance':
+            return findMethod(resolver, type.context, type.node, name, depth) ?? findField(resolver, type.context, type.node, name, depth);
+        case 'object': {
+            const property = type.node.properties.find((candidate) => candidate.name === name);
+            return property ? { kind: 'property', context: type.context, property } : null;
+        }
+    }
+}
+
+function addClassMembers(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    node: ClassDeclaration,
+    withFields: boolean,
+    members: Map<string, Resolution>,
+    depth: number
+): void {
+    if (depth > MAX_DEPTH) {
+        return;
+    }
+    for (const declaration of scopeOf(context, node)?.declarations.values() ?? []) {
+        if (!members.has(declaration.name)) {
+            members.set(declaration.name, { kind: 'symbol', context, declaration });
+        }
+    }
+    if (withFields) {
+        for (const field of classFields(context, node).values()) {
+            if (!members.has(field.name)) {
+                members.set(field.name, { kind: 'field', context, owner: node, field });
+            }
+        }
+    }
+    for (const base of baseClasses(resolver, context, node, depth)) {
+        if (base.kind === 'class') {
+            addClassMembers(resolver, base.context, base.node, withFields, members, depth + 1);
+        }
+    }
+}
+
+// Everything `resolveMember` can find on the type, keyed by member name.
+export function listMembers(resolver: ModuleResolver, type: ValueType): Map<string, Resolution> {
+    const members = new Map<string, Resolution>();
+    switch (type.kind) {
+        case 'module': {
+            const entry = resolver.getModule(type.module);
+            if (entry) {
+                const context = contextForEntry(entry);
+                for (const declaration of context.binding.scope.declarations.values()) {
+                    if (declaration.kind !== 'import') {
+                        members.set(declaration.name, { kind: 'symbol', context, declaration });
+                    }
+                }
+            }
+            const prefix = `${type.module}.`;
+            for (const name of resolver.listModules?.() ?? []) {
+                const child = name.startsWith(prefix) ? name.slice(prefix.length).split('.')[0] : null;
+                if (child && !members.has(child)) {
+                    members.set(child, resolveModule(resolver, `${prefix}${child}`));
+                }
+            }
+            break;
+        }
+        case 'class':
+        case 'instance':
+            addClassMembers(resolver, type.context, type.node, type.kind === 'instance', members, 0);
+            break;
+        case 'object':
+            for (const property of type.node.properties) {
+                members.set(property.name, { kind: 'property', context: type.context, property });
+            }
+            break;
+    }
+    return members;
+}
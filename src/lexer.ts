@@ -0,0 +1,592 @@
+import { ParseError, Position, Range } from './ast';
+
+export type TokenKind =
+    | 'name'
+    | 'keyword'
+    | 'number'
+    | 'string'
+    | 'fstringStart'
+    | 'fstringMiddle'
+    | 'fstringEnd'
+    | 'interpolationStart'
+    | 'interpolationEnd'
+    | 'operator'
+    | 'newline'
+    | 'indent'
+    | 'dedent'
+    | 'unknown'
+    | 'eof';
+
+export type Token = {
+    kind: TokenKind;
+    value: string;
+    offset: number;
+    end: number;
+    range: Range;
+};
+
+export type Comment = {
+    text: string;
+    block: boolean;
+    ownLine: boolean;
+    offset: number;
+    end: number;
+    range: Range;
+};
+
+export type LexResult = {
+    tokens: Token[];
+    comments: Comment[];
+    errors: ParseError[];
+};
+
+export const KEYWORDS = new Set([
+    'if',
+    'elif',
+    'else',
+    'for',
+    'of',
+    'while',
+    'break',
+    'continue',
+    'return',
+    'async',
+    'await',
+    'class',
+    'fun',
+    'import',
+    'from',
+    'as',
+    'true',
+    'false',
+    'null',
+    'and',
+    'or',
+    'not',
+    'is'
+]);
+
+// Keywords that can only start a statement. When one of them begins a line
+// inside an unclosed bracket, the bracket is treated as abandoned so the rest
+// of the file still parses. Keywords that could plausibly continue an
+// expression only count when the line is not indented past the bracket.
+const STATEMENT_KEYWORDS = new Set([
+    'elif',
+    'while',
+    'break',
+    'continue',
+    'return',
+    'async',
+    'class',
+    'fun',
+    'import',
+    'from'
+]);
+
+const OUTDENTED_STATEMENT_KEYWORDS = new Set(['if', 'else', 'for']);
+
+const OPERATORS = [
+    '==', '!=', '<=', '>=', '+=', '-=', '*=', '/=', '%=', '**', '//',
+    '+', '-', '*', '/', '%', '=', '<', '>', '!', '(', ')', '[', ']', '{', '}', ',', ':', '.', '@'
+];
+
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+export const TAB_WIDTH = 4;
+
+export function computeLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            starts.push(i + 1);
+        }
+    }
+    return starts;
+}
+
+export function positionAt(lineStarts: number[], offset: number): Position {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return { line: low, character: offset - lineStarts[low] };
+}
+
+export function offsetAt(lineStarts: number[], position: Position): number {
+    if (position.line >= lineStarts.length) {
+        return lineStarts[lineStarts.length - 1];
+    }
+    return lineStarts[Math.max(0, position.line)] + position.character;
+}
+
+function isIdentStart(ch: string): boolean {
+    return /[A-Za-z_]/.test(ch);
+}
+
+function isIdentPart(ch: string): boolean {
+    return /[A-Za-z0-9_]/.test(ch);
+}
+
+function isDigit(ch: string): boolean {
+    return ch >= '0' && ch <= '9';
+}
+
+function unescape(raw: string): string {
+    return raw.replace(/\\(.)/g, (_match, ch: string) => {
+        switch (ch) {
+            case 'n':
+                return '\n';
+            case 't':
+                return '\t';
+            case 'r':
+                return '\r';
+            default:
+                return ch;
+        }
+    });
+}
+
+type OpenBracket = {
+    token: Token;
+    lineIndent: number;
+};
+
+class Lexer {
+    private readonly lineStarts: number[];
+    private readonly tokens: Token[] = [];
+    private readonly comments: Comment[] = [];
+    private readonly errors: ParseError[] = [];
+    private readonly indents: number[] = [0];
+    private readonly brackets: OpenBracket[] = [];
+    private pos = 0;
+    private lineIndent = 0;
+    private lineHasTokens = false;
+    private indentStyle: 'tabs' | 'spaces' | null = null;
+
+    constructor(private readonly text: string) {
+        this.lineStarts = computeLineStarts(text);
+    }
+
+    run(): LexResult {
+        while (this.pos < this.text.length) {
+            if (!this.lineHasTokens && this.brackets.length === 0) {
+                this.lexIndentation();
+                continue;
+            }
+            this.lexToken();
+        }
+        this.closeBrackets();
+        if (this.lineHasTokens) {
+            this.push('newline', '', this.pos, this.pos);
+        }
+        while (this.indents.length > 1) {
+            this.indents.pop();
+            this.push('dedent', '', this.pos, this.pos);
+        }
+        this.push('eof', '', this.pos, this.pos);
+        return { tokens: this.tokens, comments: this.comments, errors: this.errors };
+    }
+
+    private range(start: number, end: number): Range {
+        return { start: positionAt(this.lineStarts, start), end: positionAt(this.lineStarts, end) };
+    }
+
+    private push(kind: TokenKind, value: string, start: number, end: number): Token {
+        const token: Token = { kind, value, offset: start, end, range: this.range(start, end) };
+        this.tokens.push(token);
+        if (kind !== 'newline' && kind !== 'indent' && kind !== 'dedent' && kind !== 'eof') {
+            this.lineHasTokens = true;
+        }
+        return token;
+    }
+
+    private error(message: string, start: number, end: number, severity: ParseError['severity'] = 'error'): void {
+        this.errors.push({ message, range: this.range(start, end), severity });
+    }
+
+    private isLineEnd(offset: number): boolean {
+        return offset >= this.text.length || this.text[offset] === '\n' || this.text.startsWith('\r\n', offset);
+    }
+
+    private skipLineEnd(): void {
+        if (this.text.startsWith('\r\n', this.pos)) {
+            this.pos += 2;
+        } else if (this.pos < this.text.length) {
+            this.pos += 1;
+        }
+    }
+
+    private measureIndent(offset: number): { width: number; end: number } {
+        let width = 0;
+        let i = offset;
+        while (i < this.text.length) {
+            const ch = this.text[i];
+            if (ch === ' ') {
+                width += 1;
+            } else if (ch === '\t') {
+                width += TAB_WIDTH;
+            } else {
+                break;
+            }
+            i += 1;
+        }
+        return { width, end: i };
+    }
+
+    private skipInlineSpace(): void {
+        while (this.pos < this.text.length && (this.text[this.pos] === ' ' || this.text[this.pos] === '\t' || this.text[this.pos] === '\r')) {
+            if (this.text[this.pos] === '\r' && this.text[this.pos + 1] === '\n') {
+                break;
+            }
+            this.pos += 1;
+        }
+    }
+
+    private lexIndentation(): void {
+        const lineStart = this.pos;
+        const { width, end } = this.measureIndent(lineStart);
+        this.pos = end;
+
+        while (this.text[this.pos] === '#') {
+            this.lexComment();
+            this.skipInlineSpace();
+        }
+
+        if (this.isLineEnd(this.pos)) {
+            this.skipLineEnd();
+            return;
+        }
+
+        this.lineIndent = width;
+        this.checkIndentStyle(lineStart, end);
+        const top = this.indents[this.indents.length - 1];
+        if (width > top) {
+            this.indents.push(width);
+            this.push('indent', '', lineStart, end);
+        } else if (width < top) {
+            while (this.indents.length > 1 && this.indents[this.indents.length - 1] > width) {
+                this.indents.pop();
+                this.push('dedent', '', end, end);
+            }
+            if (this.indents[this.indents.length - 1] !== width) {
+                this.error('Unindent does not match any outer indentation level', lineStart, end);
+            }
+        }
+        this.lineHasTokens = true;
+    }
+
+    private checkIndentStyle(start: number, end: number): void {
+        const whitespace = this.text.slice(start, end);
+        if (!whitespace) {
+            return;
+        }
+        if (whitespace.includes('\t') && whitespace.includes(' ')) {
+            this.error('Indentation mixes tabs and spaces', start, end);
+            return;
+        }
+        const style = whitespace[0] === '\t' ? 'tabs' : 'spaces';
+        if (!this.indentStyle) {
+            this.indentStyle = style;
+        } else if (style !== this.indentStyle) {
+            this.error(`Indentation uses ${style} but earlier lines use ${this.indentStyle}`, start, end, 'warning');
+        }
+    }
+
+    private lexComment(): void {
+        const start = this.pos;
+        const lineStart = this.lineStarts[positionAt(this.lineStarts, start).line];
+        const ownLine = this.text.slice(lineStart, start).trim() === '';
+        if (this.text.startsWith('##', start)) {
+            const close = this.text.indexOf('##', start + 2);
+            if (close < 0) {
+                this.error("Unterminated block comment: missing closing '##'", start, start + 2);
+                this.pos = this.text.length;
+            } else {
+                this.pos = close + 2;
+            }
+            this.comments.push({
+                text: this.text.slice(start + 2, close < 0 ? this.text.length : close),
+                block: true,
+                ownLine,
+                offset: start,
+                end: this.pos,
+                range: this.range(start, this.pos)
+            });
+            return;
+        }
+
+        let end = start;
+        while (!this.isLineEnd(end)) {
+            end += 1;
+        }
+        this.pos = end;
+        this.comments.push({
+            text: this.text.slice(start + 1, end),
+            block: false,
+            ownLine,
+            offset: start,
+            end,
+            range: this.range(start, end)
+        });
+    }
+
+    private lexToken(): void {
+        const ch = this.text[this.pos];
+
+        if (ch === ' ' || ch === '\t' || (ch === '\r' && this.text[this.pos + 1] !== '\n')) {
+            this.pos += 1;
+            return;
+        }
+
+        if (ch === '\n' || ch === '\r') {
+            this.lexLineBreak();
+            return;
+        }
+
+        if (ch === '#') {
+            this.lexComment();
+            return;
+        }
+
+        if (ch === '\\' && this.isLineEnd(this.pos + 1)) {
+            this.pos += 1;
+            this.skipLineEnd();
+            return;
+        }
+
+        this.lexCodeToken();
+    }
+
+    private lexLineBreak(): void {
+        const start = this.pos;
+        this.skipLineEnd();
+        if (this.brackets.length === 0) {
+            this.push('newline', '', start, start);
+            this.lineHasTokens = false;
+            return;
+        }
+        if (this.abandonsBrackets()) {
+            this.closeBrackets();
+            this.push('newline', '', start, start);
+            this.lineHasTokens = false;
+        }
+    }
+
+    private abandonsBrackets(): boolean {
+        let offset = this.pos;
+        while (offset < this.text.length) {
+            const { width, end } = this.measureIndent(offset);
+            if (this.isLineEnd(end) || this.text[end] === '#') {
+                const next = this.text.indexOf('\n', end);
+                if (next < 0) {
+                    return false;
+                }
+                offset = next + 1;
+                continue;
+            }
+            const outdented = width <= this.brackets[0].lineIndent;
+            if (this.text[end] === '@') {
+                return outdented;
+            }
+            const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(this.text.slice(end, end + 16));
+            if (!word) {
+                return false;
+            }
+            return STATEMENT_KEYWORDS.has(word[0]) || (outdented && OUTDENTED_STATEMENT_KEYWORDS.has(word[0]));
+        }
+        return false;
+    }
+
+    private closeBrackets(): void {
+        for (const open of this.brackets) {
+            this.error(`Unclosed '${open.token.value}'`, open.token.offset, open.token.end);
+        }
+        this.brackets.length = 0;
+    }
+
+    private lexCodeToken(): void {
+        const start = this.pos;
+        const ch = this.text[start];
+
+        if (ch === 'f' && this.text[start + 1] === '"') {
+            this.lexFString();
+            return;
+        }
+
+        if (isIdentStart(ch)) {
+            let end = start + 1;
+            while (end < this.text.length && isIdentPart(this.text[end])) {
+                end += 1;
+            }
+            const word = this.text.slice(start, end);
+            this.pos = end;
+            this.push(KEYWORDS.has(word) ? 'keyword' : 'name', word, start, end);
+            return;
+        }
+
+        if (isDigit(ch) || (ch === '.' && isDigit(this.text[start + 1] ?? ''))) {
+            const match = /^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(this.text.slice(start, start + 64));
+            const raw = match ? match[0] : ch;
+            this.pos = start + raw.length;
+            this.push('number', raw, start, this.pos);
+            return;
+        }
+
+        if (ch === '"') {
+            this.lexString();
+            return;
+        }
+
+        for (const op of OPERATORS) {
+            if (this.text.startsWith(op, start)) {
+                this.pos = start + op.length;
+                const token = this.push('operator', op, start, this.pos);
+                this.trackBracket(token);
+                return;
+            }
+        }
+
+        this.pos = start + 1;
+        this.push('unknown', ch, start, this.pos);
+        this.error(`Unexpected character '${ch}'`, start, this.pos);
+    }
+
+    private trackBracket(token: Token): void {
+        if (CLOSERS[token.value]) {
+            this.brackets.push({ token, lineIndent: this.lineIndent });
+            return;
+        }
+        if (token.value !== ')' && token.value !== ']' && token.value !== '}') {
+            return;
+        }
+        const open = this.brackets[this.brackets.length - 1];
+        if (open && CLOSERS[open.token.value] === token.value) {
+            this.brackets.pop();
+            return;
+        }
+        const matching = this.brackets.map((entry) => CLOSERS[entry.token.value]).lastIndexOf(token.value);
+        if (matching >= 0) {
+            for (const unclosed of this.brackets.splice(matching)) {
+                if (CLOSERS[unclosed.token.value] !== token.value) {
+                    this.error(`Unclosed '${unclosed.token.value}'`, unclosed.token.offset, unclosed.token.end);
+                }
+            }
+            return;
+        }
+        this.error(`Unmatched '${token.value}'`, token.offset, token.end);
+    }
+
+    private lexString(): void {
+        const start = this.pos;
+        let i = start + 1;
+        while (!this.isLineEnd(i) && this.text[i] !== '"') {
+            i += this.text[i] === '\\' && !this.isLineEnd(i + 1) ? 2 : 1;
+        }
+        const terminated = this.text[i] === '"';
+        if (!terminated) {
+            this.error('Unterminated string', start, i);
+        }
+        const end = terminated ? i + 1 : i;
+        this.pos = end;
+        this.push('string', this.text.slice(start, end), start, end);
+    }
+
+    private lexFString(): void {
+        const start = this.pos;
+        this.pos += 2;
+        this.push('fstringStart', 'f"', start, this.pos);
+
+        let chunkStart = this.pos;
+        const flush = () => {
+            if (this.pos > chunkStart) {
+                this.push('fstringMiddle', this.text.slice(chunkStart, this.pos), chunkStart, this.pos);
+            }
+        };
+
+        while (!this.isLineEnd(this.pos)) {
+            const ch = this.text[this.pos];
+            if (ch === '"') {
+                flush();
+                this.push('fstringEnd', '"', this.pos, this.pos + 1);
+                this.pos += 1;
+                return;
+            }
+            if (ch === '\\' && !this.isLineEnd(this.pos + 1)) {
+                this.pos += 2;
+                continue;
+            }
+            if ((ch === '{' && this.text[this.pos + 1] === '{') || (ch === '}' && this.text[this.pos + 1] === '}')) {
+                this.pos += 2;
+                continue;
+            }
+            if (ch === '{') {
+                flush();
+                this.push('interpolationStart', '{', this.pos, this.pos + 1);
+                this.pos += 1;
+                this.lexInterpolation();
+                chunkStart = this.pos;
+                continue;
+            }
+            this.pos += 1;
+        }
+
+        flush();
+        this.error('Unterminated f-string', start, this.pos);
+    }
+
+    private lexInterpolation(): void {
+        const outer = this.brackets.length;
+        const start = this.pos;
+        while (!this.isLineEnd(this.pos)) {
+            const ch = this.text[this.pos];
+            if (ch === ' ' || ch === '\t') {
+                this.pos += 1;
+                continue;
+            }
+            if (ch === '}' && this.brackets.length === outer) {
+                this.push('interpolationEnd', '}', this.pos, this.pos + 1);
+                this.pos += 1;
+                return;
+            }
+            if (ch === '"' && this.brackets.length === outer && !this.hasStringAhead()) {
+                break;
+            }
+            this.lexCodeToken();
+        }
+        while (this.brackets.length > outer) {
+            const open = this.brackets.pop() as OpenBracket;
+            this.error(`Unclosed '${open.token.value}'`, open.token.offset, open.token.end);
+        }
+        this.error("Unterminated f-string expression: missing '}'", start - 1, start);
+    }
+
+    // Inside an interpolation a quote either opens a nested string or closes
+    // the f-string itself; it is a nested string when another quote follows
+    // before the interpolation's closing brace.
+    private hasStringAhead(): boolean {
+        let i = this.pos + 1;
+        while (!this.isLineEnd(i) && this.text[i] !== '"') {
+            i += this.text[i] === '\\' ? 2 : 1;
+        }
+        if (this.text[i] !== '"') {
+            return false;
+        }
+        const rest = this.text.slice(i + 1, this.text.indexOf('\n', i) < 0 ? undefined : this.text.indexOf('\n', i));
+        return rest.includes('}');
+    }
+}
+
+export function tokenize(text: string): LexResult {
+    return new Lexer(text).run();
+}
+
+export function stringValue(raw: string): string {
+    const body = raw.length >= 2 && raw.endsWith('"') ? raw.slice(1, -1) : raw.slice(1);
+    return unescape(body);
+}
@@ -0,0 +1,46 @@
+import { Program, Range } from './ast';
+import { Comment } from './lexer';
+import { Binding, bindProgram } from './scope';
+import { SymbolSet } from './symbols';
+
+export type ModuleEntry = {
+    moduleName: string;
+    filePath: string;
+    uri: string;
+    symbols: SymbolSet;
+    program: Program;
+    comments: Comment[];
+};
+
+export interface ModuleResolver {
+    getModule(name: string): ModuleEntry | undefined;
+    listModules?(): Iterable<string>;
+}
+
+export type SymbolLocation = {
+    uri: string;
+    range: Range;
+};
+
+export type ModuleContext = {
+    uri: string;
+    moduleName: string | null;
+    program: Program;
+    comments: Comment[];
+    binding: Binding;
+};
+
+export function contextForEntry(entry: ModuleEntry): ModuleContext {
+    return {
+        uri: entry.uri,
+        moduleName: entry.moduleName,
+        program: entry.program,
+        comments: entry.comments,
+        binding: bindProgram(entry.program)
+    };
+}
+
+export function moduleLocation(entry: ModuleEntry): SymbolLocation {
+    const start = { line: 0, character: 0 };
+    return { uri: entry.uri, range: { start, end: start } };
+}
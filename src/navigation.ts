@@ -0,0 +1,73 @@
+import { Position, Range, containsPosition, walkStatements } from './ast';
+import { Resolution, inferType, resolutionLocation, resolveDeclaration, resolveExport, resolveMember, resolveModule } from './inference';
+import { ModuleContext, ModuleResolver, SymbolLocation } from './modules';
+
+export type Target = {
+    name: string;
+    range: Range;
+    resolution: Resolution | null;
+};
+
+export function targetAt(resolver: ModuleResolver, context: ModuleContext, position: Position): Target | null {
+    const { binding } = context;
+
+    for (const reference of binding.references) {
+        if (containsPosition(reference.range, position)) {
+            const resolution = reference.declaration ? resolveDeclaration(resolver, context, reference.declaration) : null;
+            return { name: reference.name, range: reference.range, resolution };
+        }
+    }
+
+    for (const declaration of binding.declarations) {
+        if (containsPosition(declaration.range, position)) {
+            return { name: declaration.name, range: declaration.range, resolution: resolveDeclaration(resolver, context, declaration) };
+        }
+    }
+
+    for (const access of binding.members) {
+        if (containsPosition(access.property.range, position)) {
+            const owner = inferType(resolver, context, access.object, access.scope);
+            const resolution = owner ? resolveMember(resolver, owner, access.property.name) : null;
+            return { name: access.property.name, range: access.property.range, resolution };
+        }
+    }
+
+    let target: Target | null = null;
+    walkStatements(context.program.body, (statement) => {
+        if (target || (statement.kind !== 'Import' && statement.kind !== 'FromImport')) {
+            return;
+        }
+        if (!containsPosition(statement.range, position)) {
+            return;
+        }
+        const parts = statement.module.parts;
+        const index = parts.findIndex((part) => containsPosition(part.range, position));
+        if (index >= 0) {
+            const module = parts.slice(0, index + 1).map((part) => part.name).join('.');
+            target = { name: module, range: parts[index].range, resolution: resolveModule(resolver, module) };
+            return;
+        }
+        if (statement.kind === 'FromImport') {
+            const specifier = statement.names.find((candidate) => containsPosition(candidate.name.range, position));
+            if (specifier) {
+                target = {
+                    name: specifier.name.name,
+                    range: specifier.name.range,
+                    resolution: resolveExport(resolver, statement.module.name, specifier.name.name)
+                };
+            }
+        }
+    });
+
+    return target;
+}
+
+export function resolveAt(resolver: ModuleResolver, context: ModuleContext, position: Position): Resolution | null {
+    return targetAt(resolver, context, position)?.resolution ?? null;
+}
+
+export function findDefinition(resolver: ModuleResolver, context: ModuleContext, position: Position): SymbolLocation[] {
+    const resolution = resolveAt(resolver, context, position);
+    const location = resolution ? resolutionLocation(resolution) : null;
+    return location ? [location] : [];
+}
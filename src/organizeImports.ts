@@ -0,0 +1,204 @@
+import { CodeAction, CodeActionKind, TextEdit } from 'vscode-languageserver/node';
+import { FromImportStatement, ImportSpecifier, ImportStatement, Statement } from './ast';
+import { findUnusedImports } from './analysis';
+import { Comment, computeLineStarts, positionAt } from './lexer';
+import { ModuleContext } from './modules';
+import { parse } from './parser';
+
+const ORGANIZE_IMPORTS_TITLE = 'Organize Imports';
+
+// Builtin modules first, then modules from `able.stdlibPaths`/`ABLEPATH`, then the workspace's own.
+export type ImportGroup = 'builtin' | 'library' | 'workspace';
+
+export type OrganizeImportsOptions = {
+    groupOf: (module: string) => ImportGroup;
+};
+
+const GROUP_ORDER: ImportGroup[] = ['builtin', 'library', 'workspace'];
+
+type ImportLine = {
+    module: string;
+    // The sorted specifiers of a `from` import; null for a plain `import`.
+    names: string[] | null;
+    alias: string | null;
+    leading: string[];
+    trailing: string[];
+};
+
+function isImport(statement: Statement): statement is ImportStatement | FromImportStatement {
+    return statement.kind === 'Import' || statement.kind === 'FromImport';
+}
+
+function printSpecifier(specifier: ImportSpecifier): string {
+    return specifier.alias ? `${specifier.name.name} as ${specifier.alias.name}` : specifier.name.name;
+}
+
+function printLine(line: ImportLine): string {
+    const statement = line.names
+        ? `from ${line.module} import ${line.names.join(', ')}`
+        : `import ${line.module}${line.alias ? ` as ${line.alias}` : ''}`;
+    return [...line.leading, line.trailing.length > 0 ? `${statement} ${line.trailing[0]}` : statement].join('\n');
+}
+
+function compareLines(a: ImportLine, b: ImportLine): number {
+    if (a.module !== b.module) {
+        return a.module < b.module ? -1 : 1;
+    }
+    return (a.names ? 1 : 0) - (b.names ? 1 : 0);
+}
+
+// The first run of top-level imports, from its first statement to its last.
+function importBlock(statements: Statement[]): (ImportStatement | FromImportStatement)[] {
+    const start = statements.findIndex(isImport);
+    if (start < 0) {
+        return [];
+    }
+    let end = start;
+    while (end + 1 < statements.length && isImport(statements[end + 1])) {
+        end += 1;
+    }
+    return statements.slice(start, end + 1) as (ImportStatement | FromImportStatement)[];
+}
+
+// Own-line comments belong to the import below them (the first import only takes those directly above it);
+// comments at the end of an import's line stay there.
+function attachComments(
+    block: (ImportStatement | FromImportStatement)[],
+    comments: Comment[]
+): { startLine: number; leading: Map<Statement, Comment[]>; trailing: Map<Statement, Comment[]> } {
+    const leading = new Map<Statement, Comment[]>(block.map((statement) => [statement, []]));
+    const trailing = new Map<Statement, Comment[]>(block.map((statement) => [statement, []]));
+    const endLine = block[block.length - 1].range.end.line;
+    let startLine = block[0].range.start.line;
+    const header: Comment[] = [];
+    for (const comment of [...comments].reverse()) {
+        if (comment.range.end.line === startLine - 1 && comment.ownLine) {
+            header.unshift(comment);
+            startLine = comment.range.start.line;
+        }
+    }
+    leading.get(block[0])?.push(...header);
+
+    for (const comment of comments) {
+        const line = comment.range.start.line;
+        if (line < block[0].range.start.line || line > endLine) {
+            continue;
+        }
+        const owner = block.find((statement) => statement.range.start.line <= line && line <= statement.range.end.line);
+        if (owner && !comment.ownLine && comment.range.end.line === owner.range.end.line) {
+            trailing.get(owner)?.push(comment);
+        } else if (owner) {
+            leading.get(owner)?.push(comment);
+        } else {
+            const next = block.find((statement) => statement.range.start.line > line);
+            if (next) {
+                leading.get(next)?.push(comment);
+            }
+        }
+    }
+    return { startLine, leading, trailing };
+}
+
+function organizedText(context: ModuleContext, text: string, options: OrganizeImportsOptions): { text: string; start: number; end: number } | null {
+    const block = importBlock(context.program.body);
+    if (block.length === 0 || block.some((statement) => statement.kind === 'FromImport' && statement.names.length === 0)) {
+        return null;
+    }
+    // Code that does not parse may hide uses of an import, so a half-typed document keeps all of them.
+    if (parse(text).errors.some((error) => error.severity !== 'warning')) {
+        return null;
+    }
+    const lineStarts = computeLineStarts(text);
+    const { startLine, leading, trailing } = attachComments(block, context.comments);
+    const endLine = block[block.length - 1].range.end.line;
+
+    // A line the parser could not turn into an import would be lost, so leave such a block alone.
+    const covered = new Set<number>();
+    const cover = (from: number, to: number) => {
+        for (let line = from; line <= to; line += 1) {
+            covered.add(line);
+        }
+    };
+    block.forEach((statement) => cover(statement.range.start.line, statement.range.end.line));
+    context.comments.forEach((comment) => cover(comment.range.start.line, comment.range.end.line));
+    for (let line = startLine; line <= endLine; line += 1) {
+        const content = text.slice(lineStarts[line], lineStarts[line + 1] ?? text.length);
+        if (!covered.has(line) && content.trim() !== '') {
+            return null;
+        }
+    }
+
+    const source = (comment: Comment) => text.slice(comment.offset, comment.end).trimEnd();
+    const unusedStatements = new Set<Statement>();
+    const unusedSpecifiers = new Set<ImportSpecifier>();
+    for (const unused of findUnusedImports(context)) {
+        if (unused.specifier) {
+            unusedSpecifiers.add(unused.specifier);
+        } else {
+            unusedStatements.add(unused.statement);
+        }
+    }
+
+    const lines = new Map<string, ImportLine>();
+    for (const statement of block) {
+        const kept = statement.kind === 'FromImport' ? statement.names.filter((specifier) => !unusedSpecifiers.has(specifier)) : [];
+        if (unusedStatements.has(statement) || (statement.kind === 'FromImport' && kept.length === 0)) {
+            continue;
+        }
+        const alias = statement.kind === 'Import' ? statement.alias?.name ?? null : null;
+        const key = statement.kind === 'FromImport' ? `from ${statement.module.name}` : `import ${statement.module.name} ${alias ?? ''}`;
+        let line = lines.get(key);
+        if (!line) {
+            line = { module: statement.module.name, names: statement.kind === 'FromImport' ? [] : null, alias, leading: [], trailing: [] };
+            lines.set(key, line);
+        }
+        line.leading.push(...(leading.get(statement) ?? []).map(source));
+        line.trailing.push(...(trailing.get(statement) ?? []).map(source));
+        for (const name of kept.map(printSpecifier)) {
+            if (line.names && !line.names.includes(name)) {
+                line.names.push(name);
+            }
+        }
+    }
+
+    const groups = new Map<ImportGroup, ImportLine[]>();
+    for (const line of lines.values()) {
+        line.names?.sort();
+        // Only one comment fits at the end of a merged line; the others move above it.
+        line.leading.push(...line.trailing.slice(1));
+        line.trailing = line.trailing.slice(0, 1);
+        const group = options.groupOf(line.module);
+        groups.set(group, [...(groups.get(group) ?? []), line]);
+    }
+    const organized = GROUP_ORDER.filter((group) => groups.has(group))
+        .map((group) => (groups.get(group) ?? []).sort(compareLines).map(printLine).join('\n'))
+        .join('\n\n');
+
+    const start = lineStarts[startLine];
+    const end = lineStarts[endLine + 1] ?? text.length;
+    const original = text.slice(start, end);
+    const newline = original.endsWith('\n') ? '\n' : '';
+    return { text: organized.length > 0 ? `${organized}${newline}` : '', start, end };
+}
+
+// Sorts and groups the leading import block, merges repeated `from` imports and drops unused names.
+export function organizeImports(context: ModuleContext, text: string, options: OrganizeImportsOptions): TextEdit[] {
+    const result = organizedText(context, text, options);
+    if (!result || result.text === text.slice(result.start, result.end)) {
+        return [];
+    }
+    const lineStarts = computeLineStarts(text);
+    return [TextEdit.replace({ start: positionAt(lineStarts, result.start), end: positionAt(lineStarts, result.end) }, result.text)];
+}
+
+export function organizeImportsAction(context: ModuleContext, text: string, options: OrganizeImportsOptions): CodeAction | null {
+    const edits = organizeImports(context, text, options);
+    if (edits.length === 0) {
+        return null;
+    }
+    return {
+        title: ORGANIZE_IMPORTS_TITLE,
+        kind: CodeActionKind.SourceOrganizeImports,
+        edit: { changes: { [context.uri]: edits } }
+    };
+}
@@ -0,0 +1,87 @@
+import { DocumentSymbol, SymbolKind } from 'vscode-languageserver/node';
+import { Expression, ObjectLiteral, Range } from './ast';
+import { ModuleContext } from './modules';
+import { Declaration, Scope } from './scope';
+
+function objectChildren(object: ObjectLiteral): DocumentSymbol[] {
+    return object.properties.map((property) => ({
+        name: property.name,
+        kind: SymbolKind.Property,
+        range: property.range,
+        selectionRange: property.key.range,
+        children: valueChildren(property.value)
+    }));
+}
+
+function valueChildren(value: Expression | null): DocumentSymbol[] {
+    return value?.kind === 'Object' ? objectChildren(value) : [];
+}
+
+function parameterDetail(declaration: Declaration): string | undefined {
+    const node = declaration.node;
+    if (node?.kind !== 'Function') {
+        return undefined;
+    }
+    return `(${node.params.map((param) => param.name.name).join(', ')})`;
+}
+
+function variableKind(declaration: Declaration): SymbolKind {
+    if (declaration.value?.kind === 'Object') {
+        return SymbolKind.Object;
+    }
+    return declaration.scope.kind === 'class' ? SymbolKind.Field : SymbolKind.Variable;
+}
+
+function scopeFor(scope: Scope, declaration: Declaration): Scope | undefined {
+    return scope.children.find((child) => child.node === declaration.node);
+}
+
+function symbolsForScope(scope: Scope, includeVariables: boolean): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+    for (const declaration of scope.declarations.values()) {
+        const node = declaration.node;
+        if (!node) {
+            continue;
+        }
+        switch (declaration.kind) {
+            case 'class':
+            case 'function':
+            case 'method': {
+                const inner = scopeFor(scope, declaration);
+                const kind =
+                    declaration.kind === 'class' ? SymbolKind.Class : declaration.kind === 'method' ? SymbolKind.Method : SymbolKind.Function;
+                symbols.push({
+                    name: declaration.name,
+                    detail: parameterDetail(declaration),
+                    kind,
+                    range: node.range,
+                    selectionRange: declaration.range,
+                    children: inner ? symbolsForScope(inner, declaration.kind === 'class') : []
+                });
+                break;
+            }
+            case 'variable':
+                if (includeVariables && node.kind === 'Assignment') {
+                    symbols.push({
+                        name: declaration.name,
+                        kind: variableKind(declaration),
+                        range: node.range,
+                        selectionRange: declaration.range,
+                        children: valueChildren(declaration.value)
+                    });
+                }
+                break;
+            default:
+                break;
+        }
+    }
+    return symbols.sort((a, b) => compareRanges(a.range, b.range));
+}
+
+function compareRanges(a: Range, b: Range): number {
+    return a.start.line - b.start.line || a.start.character - b.start.character;
+}
+
+export function getDocumentSymbols(context: ModuleContext): DocumentSymbol[] {
+    return symbolsForScope(context.binding.scope, true);
+}
@@ -0,0 +1,828 @@
+import {
+    CallExpression,
+    ClassDeclaration,
+    Decorator,
+    DottedName,
+    Expression,
+    FromImportStatement,
+    FunctionDeclaration,
+    Identifier,
+    IfClause,
+    IfStatement,
+    ImportSpecifier,
+    ImportStatement,
+    ObjectLiteral,
+    Parameter,
+    ParseError,
+    Position,
+    Program,
+    Property,
+    Range,
+    Statement
+} from './ast';
+import { Comment, Token, TokenKind, stringValue, tokenize } from './lexer';
+
+export type ParseResult = {
+    program: Program;
+    tokens: Token[];
+    comments: Comment[];
+    errors: ParseError[];
+};
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=']);
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '>', '<=', '>=']);
+
+function rangeBetween(start: Range, end: Range): Range {
+    return { start: start.start, end: end.end };
+}
+
+function emptyRange(position: Position): Range {
+    return { start: position, end: position };
+}
+
+class Parser {
+    private index = 0;
+    private last: Token;
+
+    constructor(private readonly tokens: Token[], private readonly errors: ParseError[]) {
+        this.last = tokens[0];
+    }
+
+    parseProgram(): Program {
+        const body = this.parseStatements(false);
+        const end = this.tokens[this.tokens.length - 1].range;
+        return { kind: 'Program', body, range: { start: { line: 0, character: 0 }, end: end.end } };
+    }
+
+    private get current(): Token {
+        return this.tokens[this.index];
+    }
+
+    private peek(distance = 1): Token {
+        return this.tokens[Math.min(this.index + distance, this.tokens.length - 1)];
+    }
+
+    private at(kind: TokenKind, value?: string): boolean {
+        const token = this.current;
+        return token.kind === kind && (value === undefined || token.value === value);
+    }
+
+    private atOperator(value: string): boolean {
+        return this.at('operator', value);
+    }
+
+    private atKeyword(value: string): boolean {
+        return this.at('keyword', value);
+    }
+
+    private atLineEnd(): boolean {
+        return this.at('newline') || this.at('eof') || this.at('dedent') || this.at('indent');
+    }
+
+    private advance(): Token {
+        const token = this.current;
+        if (token.kind !== 'eof') {
+            this.index += 1;
+        }
+        if (token.kind !== 'newline' && token.kind !== 'indent' && token.kind !== 'dedent') {
+            this.last = token;
+        }
+        return token;
+    }
+
+    private error(message: string, range: Range): void {
+        const previous = this.errors[this.errors.length - 1];
+        if (previous && previous.range.start.line === range.start.line && previous.range.start.character === range.start.character) {
+            return;
+        }
+        this.errors.push({ message, range });
+    }
+
+    private describe(token: Token): string {
+        switch (token.kind) {
+            case 'newline':
+                return 'end of line';
+            case 'eof':
+                return 'end of file';
+            case 'indent':
+                return 'indentation';
+            case 'dedent':
+                return 'dedent';
+            case 'string':
+                return 'string';
+            case 'fstringStart':
+                return 'f-string';
+            default:
+                return `'${token.value}'`;
+        }
+    }
+
+    private errorAtCurrent(message: string): void {
+        const token = this.current;
+        const range = this.atLineEnd() ? emptyRange(this.last.range.end) : token.range;
+        this.error(message, range);
+    }
+
+    private expectOperator(value: string, context: string): boolean {
+        if (this.atOperator(value)) {
+            this.advance();
+            return true;
+        }
+        this.errorAtCurrent(`Expected '${value}' ${context}`);
+        return false;
+    }
+
+    private expectClose(value: string): void {
+        if (this.atOperator(value)) {
+            this.advance();
+            return;
+        }
+        // The lexer already reports brackets that are still open at a line end.
+        if (this.atLineEnd()) {
+            return;
+        }
+        this.errorAtCurrent(`Expected '${value}' but found ${this.describe(this.current)}`);
+    }
+
+    private identifier(token: Token): Identifier {
+        return { kind: 'Identifier', name: token.value, range: token.range };
+    }
+
+    private expectName(context: string): Identifier | null {
+        if (this.at('name')) {
+            return this.identifier(this.advance());
+        }
+        this.errorAtCurrent(`Expected ${context}`);
+        return null;
+    }
+
+    private skipToLineEnd(): void {
+        while (!this.atLineEnd()) {
+            this.advance();
+        }
+        if (this.at('newline')) {
+            this.advance();
+        }
+    }
+
+    private endStatement(): void {
+        if (this.at('newline')) {
+            this.advance();
+            return;
+        }
+        if (this.at('eof') || this.at('dedent') || this.at('indent')) {
+            return;
+        }
+        this.errorAtCurrent(`Unexpected ${this.describe(this.current)}`);
+        this.skipToLineEnd();
+    }
+
+    private parseStatements(inBlock: boolean): Statement[] {
+        const body: Statement[] = [];
+        while (!this.at('eof')) {
+            if (this.at('dedent')) {
+                if (inBlock) {
+                    break;
+                }
+                this.advance();
+                continue;
+            }
+            if (this.at('newline')) {
+                this.advance();
+                continue;
+            }
+            if (this.at('indent')) {
+                this.error('Unexpected indentation', this.current.range);
+                this.advance();
+                body.push(...this.parseStatements(true));
+                if (this.at('dedent')) {
+                    this.advance();
+                }
+                continue;
+            }
+            const start = this.index;
+            const statement = this.parseStatement();
+            if (statement) {
+                body.push(statement);
+            }
+            if (this.index === start) {
+                this.advance();
+            }
+        }
+        return body;
+    }
+
+    private parseBlock(context: string): Statement[] {
+        if (this.atOperator(':')) {
+            this.advance();
+        } else {
+            const colon = this.findOnLine(':');
+            if (colon >= 0) {
+                this.errorAtCurrent(`Unexpected ${this.describe(this.current)}`);
+                this.index = colon + 1;
+                this.last = this.tokens[colon];
+            } else {
+                this.error(`Expected ':' after ${context}`, emptyRange(this.last.range.end));
+            }
+        }
+
+        if (this.at('newline')) {
+            this.advance();
+            if (!this.at('indent')) {
+                this.error(`Expected an indented block after ${context}`, emptyRange(this.last.range.end));
+                return [];
+            }
+            this.advance();
+            const body = this.parseStatements(true);
+            if (this.at('dedent')) {
+                this.advance();
+            }
+            return body;
+        }
+
+        if (this.at('eof') || this.at('dedent')) {
+            this.error(`Expected an indented block after ${context}`, emptyRange(this.last.range.end));
+            return [];
+        }
+
+        const statement = this.parseSimpleStatement();
+        return statement ? [statement] : [];
+    }
+
+    private findOnLine(value: string): number {
+        for (let i = this.index; i < this.tokens.length; i++) {
+            const token = this.tokens[i];
+            if (token.kind === 'newline' || token.kind === 'eof' || token.kind === 'indent' || token.kind === 'dedent') {
+                return -1;
+            }
+            if (token.kind === 'operator' && token.value === value) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    private parseStatement(): Statement | null {
+        const token = this.current;
+
+        if (token.kind === 'operator' && token.value === '@') {
+            return this.parseDecorated();
+        }
+
+        if (token.kind === 'keyword') {
+            switch (token.value) {
+                case 'class':
+                    return this.parseClass([]);
+                case 'fun':
+                    return this.parseFunction([]);
+                case 'async':
+                    if (this.peek().kind === 'keyword' && this.peek().value === 'fun') {
+                        return this.parseFunction([]);
+                    }
+                    break;
+                case 'if':
+                    return this.parseIf();
+                case 'elif':
+                case 'else':
+                    this.error(`'${token.value}' without a matching 'if'`, token.range);
+                    return this.parseIf();
+                case 'for':
+                    return this.parseFor();
+                case 'while':
+                    return this.parseWhile();
+                default:
+                    break;
+            }
+        }
+
+        return this.parseSimpleStatement();
+    }
+
+    private parseSimpleStatement(): Statement | null {
+        const token = this.current;
+        let statement: Statement | null;
+
+        if (token.kind === 'keyword' && token.value === 'return') {
+            this.advance();
+            const value = this.atLineEnd() ? null : this.parseExpression();
+            statement = { kind: 'Return', value, range: rangeBetween(token.range, this.last.range) };
+        } else if (token.kind === 'keyword' && token.value === 'break') {
+            this.advance();
+            statement = { kind: 'Break', range: token.range };
+        } else if (token.kind === 'keyword' && token.value === 'continue') {
+            this.advance();
+            statement = { kind: 'Continue', range: token.range };
+        } else if (token.kind === 'keyword' && token.value === 'import') {
+            statement = this.parseImport();
+        } else if (token.kind === 'keyword' && token.value === 'from') {
+            statement = this.parseFromImport();
+        } else {
+            const expression = this.parseExpression();
+            if (this.at('operator') && ASSIGNMENT_OPERATORS.has(this.current.value)) {
+                const operator = this.advance().value;
+                const value = this.parseExpression();
+                statement = {
+                    kind: 'Assignment',
+                    target: expression,
+                    operator,
+                    value,
+                    range: rangeBetween(expression.range, this.last.range)
+                };
+            } else {
+                statement = { kind: 'ExpressionStatement', expression, range: expression.range };
+            }
+        }
+
+        this.endStatement();
+        return statement;
+    }
+
+    private parseDottedName(context: string): DottedName | null {
+        const first = this.expectName(context);
+        if (!first) {
+            return null;
+        }
+        const parts = [first];
+        while (this.atOperator('.')) {
+            this.advance();
+            const part = this.expectName('module name after "."');
+            if (!part) {
+                break;
+            }
+            parts.push(part);
+        }
+        return {
+            kind: 'DottedName',
+            name: parts.map((part) => part.name).join('.'),
+            parts,
+            range: rangeBetween(first.range, parts[parts.length - 1].range)
+        };
+    }
+
+    private parseImport(): ImportStatement | null {
+        const keyword = this.advance();
+        const module = this.parseDottedName('module name after "import"');
+        if (!module) {
+            return null;
+        }
+        let alias: Identifier | null = null;
+        if (this.atKeyword('as')) {
+            this.advance();
+            alias = this.expectName('alias name after "as"');
+        }
+        return { kind: 'Import', module, alias, range: rangeBetween(keyword.range, this.last.range) };
+    }
+
+    private parseFromImport(): FromImportStatement | null {
+        const keyword = this.advance();
+        const module = this.parseDottedName('module name after "from"');
+        if (!module) {
+            return null;
+        }
+        const names: ImportSpecifier[] = [];
+        if (!this.atKeyword('import')) {
+            this.errorAtCurrent("Expected 'import'");
+            return { kind: 'FromImport', module, names, range: rangeBetween(keyword.range, this.last.range) };
+        }
+        this.advance();
+
+        const parenthesized = this.atOperator('(');
+        if (parenthesized) {
+            this.advance();
+        }
+        while (this.at('name')) {
+            const name = this.identifier(this.advance());
+            let alias: Identifier | null = null;
+            if (this.atKeyword('as')) {
+                this.advance();
+                alias = this.expectName('alias name after "as"');
+            }
+            names.push({ kind: 'ImportSpecifier', name, alias, range: rangeBetween(name.range, this.last.range) });
+            if (!this.atOperator(',')) {
+                break;
+            }
+            this.advance();
+        }
+        if (names.length === 0) {
+            this.errorAtCurrent('Expected a name to import');
+        }
+        if (parenthesized) {
+            this.expectClose(')');
+        }
+        return { kind: 'FromImport', module, names, range: rangeBetween(keyword.range, this.last.range) };
+    }
+
+    private parseDecorated(): Statement | null {
+        const decorators: Decorator[] = [];
+        while (this.atOperator('@')) {
+            const at = this.advance();
+            const name = this.expectName('decorator name after "@"');
+            let args: Expression[] | null = null;
+            if (name && this.atOperator('(')) {
+                args = this.parseArguments();
+            }
+            if (name) {
+                decorators.push({ kind: 'Decorator', name, args, range: rangeBetween(at.range, this.last.range) });
+            }
+            this.endStatement();
+            while (this.at('newline')) {
+                this.advance();
+            }
+        }
+
+        if (this.atKeyword('class')) {
+            return this.parseClass(decorators);
+        }
+        if (this.atKeyword('fun') || (this.atKeyword('async') && this.peek().value === 'fun')) {
+            return this.parseFunction(decorators);
+        }
+        this.errorAtCurrent("Expected 'fun' or 'class' after decorator");
+        return null;
+    }
+
+    private parseClass(decorators: Decorator[]): ClassDeclaration | null {
+        const keyword = this.advance();
+        const start = decorators.length > 0 ? decorators[0].range : keyword.range;
+        const name = this.expectName('class name');
+        if (!name) {
+            this.skipToLineEnd();
+            return null;
+        }
+        const bases: Expression[] = [];
+        if (this.atOperator('(')) {
+            bases.push(...this.parseArguments());
+        }
+        const body = this.parseBlock(`class '${name.name}'`);
+        return { kind: 'Class', name, bases, decorators, body, range: rangeBetween(start, this.last.range) };
+    }
+
+    private parseFunction(decorators: Decorator[]): FunctionDeclaration | null {
+        const first = this.advance();
+        const isAsync = first.value === 'async';
+        if (isAsync) {
+            this.advance();
+        }
+        const start = decorators.length > 0 ? decorators[0].range : first.range;
+        const name = this.expectName('function name');
+        if (!name) {
+            this.skipToLineEnd();
+            return null;
+        }
+        const params: Parameter[] = [];
+        if (this.expectOperator('(', `after function name '${name.name}'`)) {
+            while (!this.atOperator(')') && !this.atLineEnd()) {
+                const paramName = this.expectName('parameter name');
+                if (!paramName) {
+                    break;
+                }
+                let defaultValue: Expression | null = null;
+                if (this.atOperator('=')) {
+                    this.advance();
+                    defaultValue = this.parseExpression();
+                }
+                params.push({
+                    kind: 'Parameter',
+                    name: paramName,
+                    defaultValue,
+                    range: rangeBetween(paramName.range, this.last.range)
+                });
+                if (!this.atOperator(',')) {
+                    break;
+                }
+                this.advance();
+            }
+            this.expectClose(')');
+        }
+        const body = this.parseBlock(`function '${name.name}'`);
+        return {
+            kind: 'Function',
+            name,
+            params,
+            isAsync,
+            decorators,
+            body,
+            range: rangeBetween(start, this.last.range)
+        };
+    }
+
+    private parseIf(): IfStatement {
+        const clauses: IfClause[] = [];
+        const first = this.current;
+        let keyword = first.value as IfClause['keyword'];
+
+        for (;;) {
+            const start = this.advance();
+            const test = keyword === 'else' ? null : this.parseExpression();
+            const body = this.parseBlock(`'${keyword}'`);
+            clauses.push({ kind: 'IfClause', keyword, test, body, range: rangeBetween(start.range, this.last.range) });
+
+            if (keyword === 'else' || !(this.atKeyword('elif') || this.atKeyword('else'))) {
+                break;
+            }
+            keyword = this.current.value as IfClause['keyword'];
+        }
+
+        return { kind: 'If', clauses, range: rangeBetween(first.range, this.last.range) };
+    }
+
+    private parseFor(): Statement {
+        const keyword = this.advance();
+        const targets: Identifier[] = [];
+        for (;;) {
+            const target = this.expectName('loop variable after "for"');
+            if (!target) {
+                break;
+            }
+            targets.push(target);
+            if (!this.atOperator(',')) {
+                break;
+            }
+            this.advance();
+        }
+        let iterable: Expression;
+        if (this.atKeyword('of')) {
+            this.advance();
+            iterable = this.parseExpression();
+        } else {
+            this.errorAtCurrent("Expected 'of' in for loop");
+            iterable = this.atLineEnd() || this.atOperator(':') ? this.missing() : this.parseExpression();
+        }
+        const body = this.parseBlock("'for'");
+        return { kind: 'For', targets, iterable, body, range: rangeBetween(keyword.range, this.last.range) };
+    }
+
+    private parseWhile(): Statement {
+        const keyword = this.advance();
+        const test = this.parseExpression();
+        const body = this.parseBlock("'while'");
+        return { kind: 'While', test, body, range: rangeBetween(keyword.range, this.last.range) };
+    }
+
+    private missing(): Expression {
+        return { kind: 'Missing', range: emptyRange(this.last.range.end) };
+    }
+
+    parseExpression(): Expression {
+        return this.parseOr();
+    }
+
+    private parseBinary(next: () => Expression, matches: () => boolean): Expression {
+        let left = next();
+        while (matches()) {
+            const operator = this.advance().value;
+            const right = next();
+            left = { kind: 'Binary', operator, left, right, range: rangeBetween(left.range, right.range) };
+        }
+        return left;
+    }
+
+    private parseOr(): Expression {
+        return this.parseBinary(() => this.parseAnd(), () => this.atKeyword('or'));
+    }
+
+    private parseAnd(): Expression {
+        return this.parseBinary(() => this.parseNot(), () => this.atKeyword('and'));
+    }
+
+    private parseNot(): Expression {
+        if (this.atKeyword('not')) {
+            const token = this.advance();
+            const operand = this.parseNot();
+            return { kind: 'Unary', operator: 'not', operand, range: rangeBetween(token.range, operand.range) };
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): Expression {
+        let left = this.parseAdditive();
+        for (;;) {
+            let operator: string;
+            if (this.at('operator') && COMPARISON_OPERATORS.has(this.current.value)) {
+                operator = this.advance().value;
+            } else if (this.atKeyword('is')) {
+                this.advance();
+                operator = 'is';
+                if (this.atKeyword('not')) {
+                    this.advance();
+                    operator = 'is not';
+                }
+            } else {
+                return left;
+            }
+            const right = this.parseAdditive();
+            left = { kind: 'Binary', operator, left, right, range: rangeBetween(left.range, right.range) };
+        }
+    }
+
+    private parseAdditive(): Expression {
+        return this.parseBinary(() => this.parseMultiplicative(), () => this.atOperator('+') || this.atOperator('-'));
+    }
+
+    private parseMultiplicative(): Expression {
+        return this.parseBinary(
+            () => this.parseUnary(),
+            () => this.atOperator('*') || this.atOperator('/') || this.atOperator('%') || this.atOperator('//')
+        );
+    }
+
+    private parseUnary(): Expression {
+        if (this.atOperator('-') || this.atOperator('+') || this.atOperator('!')) {
+            const token = this.advance();
+            const operand = this.parseUnary();
+            return { kind: 'Unary', operator: token.value, operand, range: rangeBetween(token.range, operand.range) };
+        }
+        return this.parsePower();
+    }
+
+    private parsePower(): Expression {
+        const base = this.parseAwait();
+        if (this.atOperator('**')) {
+            this.advance();
+            const exponent = this.parseUnary();
+            return { kind: 'Binary', operator: '**', left: base, right: exponent, range: rangeBetween(base.range, exponent.range) };
+        }
+        return base;
+    }
+
+    private parseAwait(): Expression {
+        if (this.atKeyword('await')) {
+            const token = this.advance();
+            const argument = this.parseAwait();
+            return { kind: 'Await', argument, range: rangeBetween(token.range, argument.range) };
+        }
+        return this.parsePostfix();
+    }
+
+    private parsePostfix(): Expression {
+        let expression = this.parsePrimary();
+        for (;;) {
+            if (this.atOperator('.')) {
+                this.advance();
+                if (!this.at('name') && !this.at('keyword')) {
+                    this.errorAtCurrent('Expected a member name after "."');
+                    return expression;
+                }
+                const property = this.identifier(this.advance());
+                expression = { kind: 'Member', object: expression, property, range: rangeBetween(expression.range, property.range) };
+            } else if (this.atOperator('(')) {
+                const args = this.parseArguments();
+                const call: CallExpression = { kind: 'Call', callee: expression, args, range: rangeBetween(expression.range, this.last.range) };
+                expression = call;
+            } else if (this.atOperator('[')) {
+                this.advance();
+                const index = this.parseExpression();
+                this.expectClose(']');
+                expression = { kind: 'Index', object: expression, index, range: rangeBetween(expression.range, this.last.range) };
+            } else {
+                return expression;
+            }
+        }
+    }
+
+    private parseArguments(): Expression[] {
+        this.advance();
+        const args: Expression[] = [];
+        while (!this.atOperator(')') && !this.atLineEnd()) {
+            args.push(this.parseExpression());
+            if (!this.atOperator(',')) {
+                break;
+            }
+            this.advance();
+        }
+        this.expectClose(')');
+        return args;
+    }
+
+    private parsePrimary(): Expression {
+        const token = this.current;
+
+        switch (token.kind) {
+            case 'name':
+                this.advance();
+                return this.identifier(token);
+            case 'number':
+                this.advance();
+                return { kind: 'Number', value: Number(token.value), raw: token.value, range: token.range };
+            case 'string':
+                this.advance();
+                return { kind: 'String', value: stringValue(token.value), raw: token.value, range: token.range };
+            case 'fstringStart':
+                return this.parseFString();
+            case 'keyword':
+                if (token.value === 'true' || token.value === 'false') {
+                    this.advance();
+                    return { kind: 'Boolean', value: token.value === 'true', range: token.range };
+                }
+                if (token.value === 'null') {
+                    this.advance();
+                    return { kind: 'Null', range: token.range };
+                }
+                break;
+            case 'operator':
+                if (token.value === '(') {
+                    this.advance();
+                    const inner = this.parseExpression();
+                    this.expectClose(')');
+                    return inner;
+                }
+                if (token.value === '[') {
+                    return this.parseList();
+                }
+                if (token.value === '{') {
+                    return this.parseObject();
+                }
+                break;
+            default:
+                break;
+        }
+
+        this.errorAtCurrent(`Expected an expression but found ${this.describe(token)}`);
+        return { kind: 'Missing', range: this.atLineEnd() ? emptyRange(this.last.range.end) : emptyRange(token.range.start) };
+    }
+
+    private parseFString(): Expression {
+        const start = this.advance();
+        const parts: Array<string | Expression> = [];
+        for (;;) {
+            if (this.at('fstringMiddle')) {
+                parts.push(this.advance().value);
+            } else if (this.at('interpolationStart')) {
+                this.advance();
+                if (this.at('interpolationEnd')) {
+                    this.error('Empty expression in f-string', this.current.range);
+                } else {
+                    parts.push(this.parseExpression());
+                }
+                while (!this.at('interpolationEnd') && !this.at('fstringEnd') && !this.atLineEnd()) {
+                    this.errorAtCurrent(`Unexpected ${this.describe(this.current)} in f-string expression`);
+                    this.advance();
+                }
+                if (this.at('interpolationEnd')) {
+                    this.advance();
+                }
+            } else {
+                break;
+            }
+        }
+        if (this.at('fstringEnd')) {
+            this.advance();
+        }
+        return { kind: 'FString', parts, range: rangeBetween(start.range, this.last.range) };
+    }
+
+    private parseList(): Expression {
+        const open = this.advance();
+        const elements: Expression[] = [];
+        while (!this.atOperator(']') && !this.atLineEnd()) {
+            elements.push(this.parseExpression());
+            if (!this.atOperator(',')) {
+                break;
+            }
+            this.advance();
+        }
+        this.expectClose(']');
+        return { kind: 'List', elements, range: rangeBetween(open.range, this.last.range) };
+    }
+
+    private parseObject(): ObjectLiteral {
+        const open = this.advance();
+        const properties: Property[] = [];
+        while (!this.atOperator('}') && !this.atLineEnd()) {
+            const keyToken = this.current;
+            let key: Property['key'];
+            let name: string;
+            if (keyToken.kind === 'name' || keyToken.kind === 'keyword') {
+                this.advance();
+                key = this.identifier(keyToken);
+                name = keyToken.value;
+            } else if (keyToken.kind === 'string') {
+                this.advance();
+                name = stringValue(keyToken.value);
+                key = { kind: 'String', value: name, raw: keyToken.value, range: keyToken.range };
+            } else {
+                this.errorAtCurrent(`Expected an object key but found ${this.describe(keyToken)}`);
+                break;
+            }
+            let value: Expression;
+            if (this.expectOperator(':', `after object key '${name}'`)) {
+                value = this.parseExpression();
+            } else {
+                value = this.missing();
+            }
+            properties.push({ kind: 'Property', key, name, value, range: rangeBetween(key.range, this.last.range) });
+            if (!this.atOperator(',')) {
+                break;
+            }
+            this.advance();
+        }
+        this.expectClose('}');
+        return { kind: 'Object', properties, range: rangeBetween(open.range, this.last.range) };
+    }
+}
+
+export function parse(text: string): ParseResult {
+    const { tokens, comments, errors } = tokenize(text);
+    const program = new Parser(tokens, errors).parseProgram();
+    errors.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+    return { program, tokens, comments, errors };
+}
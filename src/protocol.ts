@@ -0,0 +1,12 @@
+// Sent by the server when indexing starts and whenever the set of indexed modules changes.
+export const INDEX_STATUS_NOTIFICATION = 'able/indexStatus';
+
+export type IndexStatus = {
+    indexing: boolean;
+    modules: number;
+    // The last scan stopped at `able.index.maxFiles` or `able.index.maxDepth`.
+    limited: boolean;
+};
+
+// Asked by the "Able: Show Module Resolution" command; answered with a Markdown report.
+export const MODULE_RESOLUTION_REQUEST = 'able/moduleResolution';
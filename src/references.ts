@@ -0,0 +1,179 @@
+import { Position, Range } from './ast';
+import { Resolution, inferType, resolveDeclaration, resolveMember } from './inference';
+import { KEYWORDS } from './lexer';
+import { ModuleContext, ModuleResolver, SymbolLocation } from './modules';
+import { targetAt } from './navigation';
+import { Declaration } from './scope';
+
+type SymbolResolution = Extract<Resolution, { kind: 'symbol' }>;
+
+export type Occurrence = SymbolLocation & {
+    isDeclaration: boolean;
+    renameable: boolean;
+};
+
+export type TextEditLike = {
+    range: Range;
+    newText: string;
+};
+
+const RENAMEABLE_KINDS = new Set(['function', 'class', 'method', 'variable', 'parameter']);
+
+function sameSymbol(resolution: Resolution | null, target: SymbolResolution): boolean {
+    if (!resolution || resolution.kind !== 'symbol') {
+        return false;
+    }
+    const a = resolution.declaration.range.start;
+    const b = target.declaration.range.start;
+    return resolution.context.uri === target.context.uri && a.line === b.line && a.character === b.character;
+}
+
+function isModuleWide(declaration: Declaration): boolean {
+    return declaration.scope.kind === 'module' || declaration.kind === 'method';
+}
+
+function isAliased(declaration: Declaration): boolean {
+    return !!declaration.importBinding?.name && declaration.importBinding.name !== declaration.name;
+}
+
+function symbolAt(resolver: ModuleResolver, context: ModuleContext, position: Position): { range: Range; symbol: SymbolResolution } | null {
+    const target = targetAt(resolver, context, position);
+    if (!target || target.resolution?.kind !== 'symbol') {
+        return null;
+    }
+    if (!RENAMEABLE_KINDS.has(target.resolution.declaration.kind)) {
+        return null;
+    }
+    return { range: target.range, symbol: target.resolution };
+}
+
+function collectInContext(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    target: SymbolResolution,
+    add: (range: Range, isDeclaration: boolean, renameable: boolean) => void
+): void {
+    const name = target.declaration.name;
+    const { binding } = context;
+
+    if (context.uri === target.context.uri) {
+        add(target.declaration.range, true, true);
+    }
+
+    for (const reference of binding.references) {
+        const declaration = reference.declaration;
+        if (!declaration || (reference.name !== name && declaration.kind !== 'import')) {
+            continue;
+        }
+        if (sameSymbol(resolveDeclaration(resolver, context, declaration), target)) {
+            add(reference.range, false, !isAliased(declaration));
+        }
+    }
+
+    for (const declaration of binding.declarations) {
+        if (declaration.kind !== 'import' || declaration.importBinding?.name !== name) {
+            continue;
+        }
+        if (!sameSymbol(resolveDeclaration(resolver, context, declaration), target)) {
+            continue;
+        }
+        const statement = declaration.node;
+        const specifier = statement?.kind === 'FromImport' ? statement.names.find((candidate) => candidate.name.name === name) : undefined;
+        add(specifier ? specifier.name.range : declaration.range, false, true);
+    }
+
+    for (const access of binding.members) {
+        if (access.property.name !== name) {
+            continue;
+        }
+        const owner = inferType(resolver, context, access.object, access.scope);
+        if (owner && sameSymbol(resolveMember(resolver, owner, name), target)) {
+            add(access.property.range, false, true);
+        }
+    }
+}
+
+export function findOccurrences(resolver: ModuleResolver, contexts: Iterable<ModuleContext>, target: SymbolResolution): Occurrence[] {
+    const occurrences: Occurrence[] = [];
+    const seen = new Set<string>();
+    const searchAll = isModuleWide(target.declaration);
+
+    for (const context of contexts) {
+        if (!searchAll && context.uri !== target.context.uri) {
+            continue;
+        }
+        collectInContext(resolver, context, target, (range, isDeclaration, renameable) => {
+            const key = `${context.uri}:${range.start.line}:${range.start.character}`;
+            if (seen.has(key)) {
+                return;
+            }
+            seen.add(key);
+            occurrences.push({ uri: context.uri, range, isDeclaration, renameable });
+        });
+    }
+
+    return occurrences;
+}
+
+export function findReferences(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    position: Position,
+    contexts: Iterable<ModuleContext>,
+    includeDeclaration: boolean
+): SymbolLocation[] {
+    const found = symbolAt(resolver, context, position);
+    if (!found) {
+        return [];
+    }
+    return findOccurrences(resolver, contexts, found.symbol)
+        .filter((occurrence) => includeDeclaration || !occurrence.isDeclaration)
+        .map(({ uri, range }) => ({ uri, range }));
+}
+
+export function isValidIdentifier(name: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !KEYWORDS.has(name);
+}
+
+export function prepareRename(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    position: Position
+): { range: Range; placeholder: string } | null {
+    const found = symbolAt(resolver, context, position);
+    if (!found) {
+        return null;
+    }
+    // Renaming through an alias would only change the local alias, which is a different symbol.
+    const local =
+        context.binding.references.find((reference) => reference.range === found.range)?.declaration ??
+        context.binding.declarations.find((declaration) => declaration.range === found.range);
+    if (local && isAliased(local)) {
+        return null;
+    }
+    return { range: found.range, placeholder: found.symbol.declaration.name };
+}
+
+export function renameSymbol(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    position: Position,
+    newName: string,
+    contexts: Iterable<ModuleContext>
+): Record<string, TextEditLike[]> | null {
+    if (!prepareRename(resolver, context, position)) {
+        return null;
+    }
+    const found = symbolAt(resolver, context, position);
+    if (!found) {
+        return null;
+    }
+    const changes: Record<string, TextEditLike[]> = {};
+    for (const occurrence of findOccurrences(resolver, contexts, found.symbol)) {
+        if (!occurrence.renameable) {
+            continue;
+        }
+        (changes[occurrence.uri] ??= []).push({ range: occurrence.range, newText: newName });
+    }
+    return changes;
+}
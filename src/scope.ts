@@ -0,0 +1,348 @@
+import {
+    ClassDeclaration,
+    Expression,
+    FunctionDeclaration,
+    Identifier,
+    Program,
+    Range,
+    Statement,
+    containsPosition,
+    Position
+} from './ast';
+
+export type DeclarationKind = 'function' | 'class' | 'method' | 'variable' | 'parameter' | 'import';
+
+export type ImportBinding = {
+    module: string;
+    name: string | null;
+};
+
+export type Declaration = {
+    name: string;
+    kind: DeclarationKind;
+    range: Range;
+    node: Statement | null;
+    scope: Scope;
+    value: Expression | null;
+    // Every value assigned to the name in its scope, in source order.
+    values: Expression[];
+    importBinding: ImportBinding | null;
+};
+
+export type ScopeKind = 'module' | 'class' | 'function';
+
+export type Scope = {
+    kind: ScopeKind;
+    node: Program | FunctionDeclaration | ClassDeclaration;
+    parent: Scope | null;
+    declarations: Map<string, Declaration>;
+    children: Scope[];
+    range: Range;
+};
+
+export type Reference = {
+    name: string;
+    range: Range;
+    scope: Scope;
+    declaration: Declaration | null;
+    write: boolean;
+};
+
+export type MemberAccess = {
+    object: Expression;
+    property: Identifier;
+    scope: Scope;
+};
+
+export type Binding = {
+    scope: Scope;
+    declarations: Declaration[];
+    references: Reference[];
+    members: MemberAccess[];
+};
+
+function createScope(kind: ScopeKind, node: Scope['node'], parent: Scope | null): Scope {
+    const scope: Scope = { kind, node, parent, declarations: new Map(), children: [], range: node.range };
+    parent?.children.push(scope);
+    return scope;
+}
+
+export function lookup(scope: Scope, name: string): Declaration | null {
+    const own = scope.declarations.get(name);
+    if (own) {
+        return own;
+    }
+    let current = scope.parent;
+    while (current) {
+        // Like methods, class-level names are not visible from nested function bodies.
+        if (current.kind !== 'class') {
+            const found = current.declarations.get(name);
+            if (found) {
+                return found;
+            }
+        }
+        current = current.parent;
+    }
+    return null;
+}
+
+export function scopeAt(scope: Scope, position: Position): Scope {
+    for (const child of scope.children) {
+        if (containsPosition(child.range, position)) {
+            return scopeAt(child, position);
+        }
+    }
+    return scope;
+}
+
+export function enclosingClass(scope: Scope): ClassDeclaration | null {
+    let current: Scope | null = scope;
+    while (current) {
+        if (current.kind === 'class') {
+            return current.node as ClassDeclaration;
+        }
+        current = current.parent;
+    }
+    return null;
+}
+
+class Binder {
+    private readonly declarations: Declaration[] = [];
+    private readonly references: Reference[] = [];
+    private readonly members: MemberAccess[] = [];
+
+    bind(program: Program): Binding {
+        const scope = createScope('module', program, null);
+        this.bindBody(program.body, scope);
+        for (const reference of this.references) {
+            reference.declaration = lookup(reference.scope, reference.name);
+        }
+        return { scope, declarations: this.declarations, references: this.references, members: this.members };
+    }
+
+    private declare(
+        scope: Scope,
+        name: Identifier,
+        kind: DeclarationKind,
+        node: Statement | null,
+        value: Expression | null = null,
+        importBinding: ImportBinding | null = null
+    ): Declaration {
+        const existing = scope.declarations.get(name.name);
+        if (existing) {
+            return existing;
+        }
+        const declaration: Declaration = {
+            name: name.name,
+            kind,
+            range: name.range,
+            node,
+            scope,
+            value,
+            values: value ? [value] : [],
+            importBinding
+        };
+        scope.declarations.set(name.name, declaration);
+        this.declarations.push(declaration);
+        return declaration;
+    }
+
+    private hoist(statements: Statement[], scope: Scope): void {
+        for (const statement of statements) {
+            switch (statement.kind) {
+                case 'Function':
+                    this.declare(scope, statement.name, scope.kind === 'class' ? 'method' : 'function', statement);
+                    break;
+                case 'Class':
+                    this.declare(scope, statement.name, 'class', statement);
+                    break;
+                case 'Assignment':
+                    if (statement.target.kind === 'Identifier' && statement.operator === '=') {
+                        const declaration = this.declare(scope, statement.target, 'variable', statement, statement.value);
+                        if (declaration.value !== statement.value) {
+                            declaration.values.push(statement.value);
+                        }
+                    }
+                    break;
+                case 'For':
+                    for (const target of statement.targets) {
+                        this.declare(scope, target, 'variable', statement);
+                    }
+                    this.hoist(statement.body, scope);
+                    break;
+                case 'While':
+                    this.hoist(statement.body, scope);
+                    break;
+                case 'If':
+                    for (const clause of statement.clauses) {
+                        this.hoist(clause.body, scope);
+                    }
+                    break;
+                case 'Import': {
+                    const binding = statement.alias ?? statement.module.parts[0];
+                    const module = statement.alias ? statement.module.name : binding.name;
+                    this.declare(scope, binding, 'import', statement, null, { module, name: null });
+                    break;
+                }
+                case 'FromImport':
+                    for (const specifier of statement.names) {
+                        this.declare(scope, specifier.alias ?? specifier.name, 'import', statement, null, {
+                            module: statement.module.name,
+                            name: specifier.name.name
+                        });
+                    }
+                    break;
+                default:
+                    break;
+            }
+        }
+    }
+
+    private bindBody(statements: Statement[], scope: Scope): void {
+        this.hoist(statements, scope);
+        this.bindStatements(statements, scope);
+    }
+
+    private bindStatements(statements: Statement[], scope: Scope): void {
+        for (const statement of statements) {
+            this.bindStatement(statement, scope);
+        }
+    }
+
+    private bindStatement(statement: Statement, scope: Scope): void {
+        switch (statement.kind) {
+            case 'Function': {
+                for (const decorator of statement.decorators) {
+                    this.reference(decorator.name, scope, false);
+                    decorator.args?.forEach((arg) => this.bindExpression(arg, scope));
+                }
+                for (const param of statement.params) {
+                    if (param.defaultValue) {
+                        this.bindExpression(param.defaultValue, scope);
+                    }
+                }
+                const inner = createScope('function', statement, scope);
+                for (const param of statement.params) {
+                    this.declare(inner, param.name, 'parameter', null, param.defaultValue);
+                }
+                this.bindBody(statement.body, inner);
+                break;
+            }
+            case 'Class': {
+                for (const decorator of statement.decorators) {
+                    this.reference(decorator.name, scope, false);
+                    decorator.args?.forEach((arg) => this.bindExpression(arg, scope));
+                }
+                statement.bases.forEach((base) => this.bindExpression(base, scope));
+                const inner = createScope('class', statement, scope);
+                this.bindBody(statement.body, inner);
+                break;
+            }
+            case 'If':
+                for (const clause of statement.clauses) {
+                    if (clause.test) {
+                        this.bindExpression(clause.test, scope);
+                    }
+                    this.bindStatements(clause.body, scope);
+                }
+                break;
+            case 'For':
+                this.bindExpression(statement.iterable, scope);
+                for (const target of statement.targets) {
+                    this.reference(target, scope, true);
+                }
+                this.bindStatements(statement.body, scope);
+                break;
+            case 'While':
+                this.bindExpression(statement.test, scope);
+                this.bindStatements(statement.body, scope);
+                break;
+            case 'Return':
+                if (statement.value) {
+                    this.bindExpression(statement.value, scope);
+                }
+                break;
+            case 'Assignment':
+                this.bindExpression(statement.value, scope);
+                if (statement.target.kind === 'Identifier') {
+                    if (statement.operator !== '=') {
+                        this.reference(statement.target, scope, false);
+                    }
+                    this.reference(statement.target, scope, true);
+                } else {
+                    this.bindExpression(statement.target, scope);
+                }
+                break;
+            case 'ExpressionStatement':
+                this.bindExpression(statement.expression, scope);
+                break;
+            default:
+                break;
+        }
+    }
+
+    private reference(identifier: Identifier, scope: Scope, write: boolean): void {
+        const declaration = scope.declarations.get(identifier.name);
+        if (write && declaration && declaration.range === identifier.range) {
+            return;
+        }
+        const reference: Reference = { name: identifier.name, range: identifier.range, scope, declaration: null, write };
+        this.references.push(reference);
+    }
+
+    private bindExpression(expression: Expression, scope: Scope): void {
+        switch (expression.kind) {
+            case 'Identifier':
+                this.reference(expression, scope, false);
+                break;
+            case 'FString':
+                for (const part of expression.parts) {
+                    if (typeof part !== 'string') {
+                        this.bindExpression(part, scope);
+                    }
+                }
+                break;
+            case 'List':
+                expression.elements.forEach((element) => this.bindExpression(element, scope));
+                break;
+            case 'Object':
+                expression.properties.forEach((property) => this.bindExpression(property.value, scope));
+                break;
+            case 'Member':
+                this.bindExpression(expression.object, scope);
+                this.members.push({ object: expression.object, property: expression.property, scope });
+                break;
+            case 'Index':
+                this.bindExpression(expression.object, scope);
+                this.bindExpression(expression.index, scope);
+                break;
+            case 'Call':
+                this.bindExpression(expression.callee, scope);
+                expression.args.forEach((arg) => this.bindExpression(arg, scope));
+                break;
+            case 'Unary':
+                this.bindExpression(expression.operand, scope);
+                break;
+            case 'Binary':
+                this.bindExpression(expression.left, scope);
+                this.bindExpression(expression.right, scope);
+                break;
+            case 'Await':
+                this.bindExpression(expression.argument, scope);
+                break;
+            default:
+                break;
+        }
+    }
+}
+
+const bindings = new WeakMap<Program, Binding>();
+
+export function bindProgram(program: Program): Binding {
+    let binding = bindings.get(program);
+    if (!binding) {
+        binding = new Binder().bind(program);
+        bindings.set(program, binding);
+    }
+    return binding;
+}
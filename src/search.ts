@@ -0,0 +1,133 @@
+import { SymbolInformation, SymbolKind } from 'vscode-languageserver/node';
+import { ModuleEntry, contextForEntry } from './modules';
+import { Declaration, Scope } from './scope';
+
+const MAX_RESULTS = 256;
+
+type Candidate = {
+    entry: ModuleEntry;
+    declaration: Declaration;
+    container: string;
+};
+
+function isBoundary(name: string, index: number): boolean {
+    if (index === 0) {
+        return true;
+    }
+    const previous = name[index - 1];
+    const current = name[index];
+    return previous === '_' || (previous === previous.toLowerCase() && current !== current.toLowerCase());
+}
+
+function findNext(name: string, lowerName: string, char: string, from: number, preferBoundary: boolean): number {
+    if (preferBoundary && lowerName[from] !== char) {
+        for (let index = lowerName.indexOf(char, from); index >= 0; index = lowerName.indexOf(char, index + 1)) {
+            if (isBoundary(name, index)) {
+                return index;
+            }
+        }
+    }
+    return lowerName.indexOf(char, from);
+}
+
+function matchScore(query: string, name: string, preferBoundary: boolean): number | null {
+    const lowerName = name.toLowerCase();
+    let score = 0;
+    let previous = -2;
+    for (const char of query.toLowerCase()) {
+        const index = findNext(name, lowerName, char, previous + 1, preferBoundary);
+        if (index < 0) {
+            return null;
+        }
+        score += 1;
+        if (index === previous + 1) {
+            score += 4;
+        }
+        if (isBoundary(name, index)) {
+            score += 3;
+        }
+        previous = index;
+    }
+    return score;
+}
+
+// Scores `name` as a fuzzy match for `query`: every query character must appear in order.
+// Consecutive runs, word starts and a matching prefix score higher; null means no match.
+export function fuzzyScore(query: string, name: string): number | null {
+    if (query === '') {
+        return 0;
+    }
+    const boundaries = matchScore(query, name, true);
+    const greedy = matchScore(query, name, false);
+    if (boundaries === null && greedy === null) {
+        return null;
+    }
+    let score = Math.max(boundaries ?? 0, greedy ?? 0);
+    const lowerName = name.toLowerCase();
+    const lowerQuery = query.toLowerCase();
+    if (lowerName === lowerQuery) {
+        score += 100;
+    } else if (lowerName.startsWith(lowerQuery)) {
+        score += 20;
+    }
+    return score - (name.length - query.length) * 0.1;
+}
+
+function symbolKind(declaration: Declaration): SymbolKind {
+    switch (declaration.kind) {
+        case 'class':
+            return SymbolKind.Class;
+        case 'method':
+            return SymbolKind.Method;
+        case 'function':
+            return SymbolKind.Function;
+        default:
+            return SymbolKind.Variable;
+    }
+}
+
+function classScope(scope: Scope, declaration: Declaration): Scope | undefined {
+    return scope.children.find((child) => child.kind === 'class' && child.node === declaration.node);
+}
+
+function collectCandidates(entry: ModuleEntry, candidates: Candidate[]): void {
+    const scope = contextForEntry(entry).binding.scope;
+    for (const declaration of scope.declarations.values()) {
+        if (declaration.kind === 'import' || declaration.node?.kind === 'For') {
+            continue;
+        }
+        candidates.push({ entry, declaration, container: entry.moduleName });
+        if (declaration.kind !== 'class') {
+            continue;
+        }
+        const members = classScope(scope, declaration);
+        for (const member of members?.declarations.values() ?? []) {
+            if (member.kind === 'method') {
+                candidates.push({ entry, declaration: member, container: `${entry.moduleName}.${declaration.name}` });
+            }
+        }
+    }
+}
+
+export function searchWorkspaceSymbols(entries: Iterable<ModuleEntry>, query: string, limit = MAX_RESULTS): SymbolInformation[] {
+    const candidates: Candidate[] = [];
+    for (const entry of entries) {
+        collectCandidates(entry, candidates);
+    }
+
+    const scored: Array<{ candidate: Candidate; score: number }> = [];
+    for (const candidate of candidates) {
+        const score = fuzzyScore(query.trim(), candidate.declaration.name);
+        if (score !== null) {
+            scored.push({ candidate, score });
+        }
+    }
+    scored.sort((a, b) => b.score - a.score || a.candidate.declaration.name.localeCompare(b.candidate.declaration.name));
+
+    return scored.slice(0, limit).map(({ candidate }) => ({
+        name: candidate.declaration.name,
+        kind: symbolKind(candidate.declaration),
+        containerName: candidate.container,
+        location: { uri: candidate.entry.uri, range: candidate.declaration.range }
+    }));
+}
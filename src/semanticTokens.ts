@@ -0,0 +1,189 @@
+import {
+    SemanticTokenModifiers,
+    SemanticTokenTypes,
+    SemanticTokens,
+    SemanticTokensBuilder,
+    SemanticTokensDelta,
+    SemanticTokensLegend
+} from 'vscode-languageserver/node';
+import { Range, walkStatements } from './ast';
+import { getBuiltinDecorator, getBuiltinFunction, getBuiltinType } from './builtins';
+import { Resolution, inferType, resolveDeclaration, resolveExport, resolveMember } from './inference';
+import { ModuleContext, ModuleResolver } from './modules';
+import { Declaration } from './scope';
+
+const TOKEN_TYPES = [
+    SemanticTokenTypes.namespace,
+    SemanticTokenTypes.class,
+    SemanticTokenTypes.function,
+    SemanticTokenTypes.method,
+    SemanticTokenTypes.parameter,
+    SemanticTokenTypes.variable,
+    SemanticTokenTypes.property,
+    SemanticTokenTypes.decorator
+];
+
+// `local` is our own modifier for variables declared inside a function.
+const TOKEN_MODIFIERS = [SemanticTokenModifiers.declaration, SemanticTokenModifiers.defaultLibrary, 'local'];
+
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+    tokenTypes: TOKEN_TYPES,
+    tokenModifiers: TOKEN_MODIFIERS
+};
+
+export type SemanticToken = {
+    line: number;
+    character: number;
+    length: number;
+    tokenType: number;
+    tokenModifiers: number;
+};
+
+type Classification = {
+    type: string;
+    modifiers: string[];
+};
+
+function declarationClass(declaration: Declaration): Classification {
+    switch (declaration.kind) {
+        case 'class':
+            return { type: SemanticTokenTypes.class, modifiers: [] };
+        case 'function':
+            return { type: SemanticTokenTypes.function, modifiers: [] };
+        case 'method':
+            return { type: SemanticTokenTypes.method, modifiers: [] };
+        case 'parameter':
+            return { type: SemanticTokenTypes.parameter, modifiers: [] };
+        case 'import':
+            return { type: SemanticTokenTypes.namespace, modifiers: [] };
+        case 'variable':
+            if (declaration.scope.kind === 'class') {
+                return { type: SemanticTokenTypes.property, modifiers: [] };
+            }
+            return { type: SemanticTokenTypes.variable, modifiers: declaration.scope.kind === 'function' ? ['local'] : [] };
+    }
+}
+
+function resolutionClass(resolution: Resolution | null): Classification | null {
+    switch (resolution?.kind) {
+        case 'module':
+            return { type: SemanticTokenTypes.namespace, modifiers: [] };
+        case 'property':
+        case 'field':
+            return { type: SemanticTokenTypes.property, modifiers: [] };
+        case 'symbol':
+            return declarationClass(resolution.declaration);
+        default:
+            return null;
+    }
+}
+
+function builtinClass(name: string): Classification | null {
+    if (getBuiltinFunction(name)) {
+        return { type: SemanticTokenTypes.function, modifiers: [SemanticTokenModifiers.defaultLibrary] };
+    }
+    if (getBuiltinType(name)) {
+        return { type: SemanticTokenTypes.class, modifiers: [SemanticTokenModifiers.defaultLibrary] };
+    }
+    return null;
+}
+
+function rangeKey(range: Range): string {
+    return `${range.start.line}:${range.start.character}`;
+}
+
+export function collectSemanticTokens(resolver: ModuleResolver, context: ModuleContext): SemanticToken[] {
+    const { binding } = context;
+    const classified = new Map<string, { range: Range; classification: Classification }>();
+    const add = (range: Range, classification: Classification | null) => {
+        if (classification && range.start.line === range.end.line && !classified.has(rangeKey(range))) {
+            classified.set(rangeKey(range), { range, classification });
+        }
+    };
+
+    const decorators = new Set<string>();
+    walkStatements(context.program.body, (statement) => {
+        if (statement.kind === 'Function' || statement.kind === 'Class') {
+            statement.decorators.forEach((decorator) => decorators.add(rangeKey(decorator.name.range)));
+        }
+        if (statement.kind === 'Import' || statement.kind === 'FromImport') {
+            statement.module.parts.forEach((part) => add(part.range, { type: SemanticTokenTypes.namespace, modifiers: [] }));
+        }
+        if (statement.kind === 'FromImport') {
+            for (const specifier of statement.names) {
+                add(specifier.name.range, resolutionClass(resolveExport(resolver, statement.module.name, specifier.name.name)));
+            }
+        }
+    });
+
+    for (const declaration of binding.declarations) {
+        const classification = resolutionClass(resolveDeclaration(resolver, context, declaration));
+        if (classification) {
+            add(declaration.range, { type: classification.type, modifiers: [...classification.modifiers, SemanticTokenModifiers.declaration] });
+        }
+    }
+
+    for (const reference of binding.references) {
+        if (decorators.has(rangeKey(reference.range))) {
+            const builtin = !reference.declaration && !!getBuiltinDecorator(reference.name);
+            add(reference.range, { type: SemanticTokenTypes.decorator, modifiers: builtin ? [SemanticTokenModifiers.defaultLibrary] : [] });
+            continue;
+        }
+        const resolution = reference.declaration ? resolveDeclaration(resolver, context, reference.declaration) : null;
+        add(reference.range, reference.declaration ? resolutionClass(resolution) : builtinClass(reference.name));
+    }
+
+    for (const access of binding.members) {
+        const owner = inferType(resolver, context, access.object, access.scope);
+        add(access.property.range, resolutionClass(owner ? resolveMember(resolver, owner, access.property.name) : null));
+    }
+
+    return Array.from(classified.values())
+        .sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character)
+        .map(({ range, classification }) => ({
+            line: range.start.line,
+            character: range.start.character,
+            length: range.end.character - range.start.character,
+            tokenType: TOKEN_TYPES.indexOf(classification.type as SemanticTokenTypes),
+            tokenModifiers: classification.modifiers.reduce((bits, modifier) => bits | (1 << TOKEN_MODIFIERS.indexOf(modifier)), 0)
+        }));
+}
+
+// The last result sent for each document, so delta requests can diff against it.
+export interface SemanticTokensCache {
+    full(uri: string, tokens: SemanticToken[]): SemanticTokens;
+    delta(uri: string, previousResultId: string, tokens: SemanticToken[]): SemanticTokens | SemanticTokensDelta;
+    delete(uri: string): void;
+}
+
+function pushTokens(builder: SemanticTokensBuilder, tokens: SemanticToken[]): void {
+    for (const token of tokens) {
+        builder.push(token.line, token.character, token.length, token.tokenType, token.tokenModifiers);
+    }
+}
+
+export function createSemanticTokensCache(): SemanticTokensCache {
+    const builders = new Map<string, SemanticTokensBuilder>();
+    return {
+        full(uri, tokens) {
+            // A full request starts over; reusing the builder would append to the data it already holds.
+            const builder = new SemanticTokensBuilder();
+            builders.set(uri, builder);
+            pushTokens(builder, tokens);
+            return builder.build();
+        },
+        delta(uri, previousResultId, tokens) {
+            let builder = builders.get(uri);
+            if (!builder) {
+                builder = new SemanticTokensBuilder();
+                builders.set(uri, builder);
+            }
+            builder.previousResult(previousResultId);
+            pushTokens(builder, tokens);
+            return builder.buildEdits();
+        },
+        delete(uri) {
+            builders.delete(uri);
+        }
+    };
+}
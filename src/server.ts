@@ -1,294 +1,290 @@
-import { createConnection, TextDocuments, ProposedFeatures, TextDocumentSyncKind, CompletionItem, CompletionItemKind, DidChangeConfigurationNotification } from 'vscode-languageserver/node';
+import { createConnection, TextDocuments, ProposedFeatures, TextDocumentSyncKind, CodeAction, CodeActionKind, CompletionItem, CompletionItemKind, DidChangeConfigurationNotification, FileChangeType, Location, ResponseError, ErrorCodes, WorkspaceEdit, DocumentSymbol, SymbolInformation, TextEdit } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { fileURLToPath } from 'url';
-import * as fs from 'fs';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { createHash } from 'crypto';
 import * as path from 'path';
-import { SymbolSet, emptySymbols, parseSymbols, mergeSymbols, getMemberCandidates } from './symbols';
-
-type ModuleEntry = {
-    moduleName: string;
-    symbols: SymbolSet;
+import { getMemberCandidates } from './symbols';
+import { ParseResult, parse } from './parser';
+import { bindProgram } from './scope';
+import { ModuleContext, ModuleEntry, contextForEntry } from './modules';
+import { findDefinition } from './navigation';
+import {
+    DEFAULT_BUILTIN_CATALOG,
+    findBuiltinCatalog,
+    getBuiltinCatalog,
+    getBuiltinModule,
+    readBuiltinCatalog,
+    setBuiltinCatalog
+} from './builtins';
+import { checkImports, checkModuleResolution, checkNames, syntaxDiagnostics } from './diagnostics';
+import { getHover } from './hover';
+import { getSignatureHelp } from './signatures';
+import { findReferences, isValidIdentifier, prepareRename, renameSymbol } from './references';
+import { getDocumentSymbols } from './outline';
+import { searchWorkspaceSymbols } from './search';
+import { FormatOptions, ON_TYPE_TRIGGERS, formatDocument, formatOnType, formatRange } from './formatter';
+import { findFormatConfig, readFormatConfig, resolveFormatOptions } from './formatConfig';
+import { SEMANTIC_TOKENS_LEGEND, collectSemanticTokens, createSemanticTokensCache } from './semanticTokens';
+import { getMemberCompletions, getModuleCompletions, getScopeCompletions, memberReceiverAt } from './completion';
+import { getCodeActions } from './codeActions';
+import { organizeImportsAction } from './organizeImports';
+import { ABLEIGNORE_FILE } from './indexFilter';
+import { INDEX_STATUS_NOTIFICATION, IndexStatus, MODULE_RESOLUTION_REQUEST } from './protocol';
+import { FileChange, ModuleIndex, createModuleIndex, describeModuleResolution } from './workspaceIndex';
+import {
+    DEFAULT_FOLDER_SETTINGS,
+    FolderSettings,
+    folderForPath,
+    parseFolderSettings,
+    resolveSettingPath,
+    searchRootsFor,
+    toolchainDirs
+} from './workspaceFolders';
+
+const VALIDATION_DELAY_MS = 200;
+const FILE_CHANGE_TYPES: { [type: number]: FileChange['type'] } = {
+    [FileChangeType.Created]: 'created',
+    [FileChangeType.Changed]: 'changed',
+    [FileChangeType.Deleted]: 'deleted'
 };
 
-const BUILTIN_FUNCTIONS = [
-    'pr',
-    'input',
-    'type',
-    'type_name',
-    'len',
-    'bool',
-    'int',
-    'float',
-    'str',
-    'list',
-    'dict',
-    'range',
-    'register_modifier',
-    'register_decorator',
-    'server_listen',
-    'json_stringify',
-    'json_parse',
-    'read_text_file',
-    'string_trim',
-    'string_split',
-    'string_join',
-    'string_replace',
-    'string_contains',
-    'string_starts_with',
-    'string_ends_with',
-    'string_lower',
-    'string_upper'
-];
-
-const BUILTIN_TYPES = [
-    'Number',
-    'String',
-    'Boolean',
-    'List',
-    'Object',
-    'Function',
-    'BoundMethod',
-    'Type',
-    'Instance',
-    'Null',
-    'Undefined',
-    'Promise'
-];
-
-const BUILTIN_KEYWORDS = [
-    'if',
-    'elif',
-    'else',
-    'for',
-    'of',
-    'while',
-    'break',
-    'continue',
-    'return',
-    'async',
-    'await',
-    'class',
-    'fun',
-    'import',
-    'from',
-    'as',
-    'true',
-    'false',
-    'null',
-    'and',
-    'or',
-    'not',
-    'is'
-];
-
-const BUILTIN_MODULES = [
-    'api',
-    'builtins',
-    'math',
-    'path',
-    'random',
-    'server',
-    'string',
-    'time'
-];
-
-const BUILTIN_DECORATORS = [
-    'Route',
-    'Get',
-    'Post',
-    'Put',
-    'Patch',
-    'Delete',
-    'Head',
-    'Options',
-    'Use'
-];
-
-const SKIP_DIRS = new Set([
-    '.git',
-    '.vscode',
-    'build',
-    'coverage',
-    'dist',
-    'node_modules',
-    'out',
-    'vendor'
-]);
-
 const connection = createConnection(ProposedFeatures.all);
 const documents = new TextDocuments(TextDocument);
 
-let workspaceRoot: string | null = null;
-const moduleIndex = new Map<string, ModuleEntry>();
-const moduleByFile = new Map<string, string>();
-let hasConfigurationCapability = false;
-let stdlibPaths: string[] = [];
-let useEnvAblePath = true;
-let searchRoots: string[] = [];
+// Each workspace folder is indexed with its own settings; documents outside every folder use `looseFiles`.
+type Folder = {
+    root: string | null;
+    name: string;
+    settings: FolderSettings;
+    index: ModuleIndex;
+    activeRebuilds: number;
+    // Set once a rebuild was requested for the current settings.
+    scheduled: boolean;
+};
 
+const folders = new Map<string, Folder>();
+const looseFiles = createFolder(null, 'loose files');
+const parsedDocuments = new Map<string, { version: number; parsed: ParseResult }>();
+const semanticTokens = createSemanticTokensCache();
+let hasConfigurationCapability = false;
+let hasWorkspaceFolderCapability = false;
+let hasSemanticTokensRefresh = false;
+let hasWorkDoneProgress = false;
+let storagePath: string | null = null;
+let validationTimer: ReturnType<typeof setTimeout> | undefined;
+// Documents waiting for fresh diagnostics; null stands for every open document.
+let pendingValidation: Set<string> | null = null;
+
+function createFolder(root: string | null, name: string): Folder {
+    const index = createModuleIndex({
+        openDocument: (filePath) => {
+            const doc = documents.get(pathToFileURL(filePath).href);
+            return doc ? getParsedDocument(doc) : undefined;
+        },
+        warn: (message) => connection.console.warn(message)
+    });
+    return { root, name, settings: DEFAULT_FOLDER_SETTINGS, index, activeRebuilds: 0, scheduled: false };
+}
 
-function normalizePath(input: string): string {
-    if (input.startsWith('~')) {
-        const home = process.env.HOME || process.env.USERPROFILE || '';
-        return path.resolve(home, input.slice(1));
+function addFolder(uri: string, name: string): Folder | undefined {
+    const root = uriToPath(uri);
+    if (root && !folders.has(root)) {
+        folders.set(root, createFolder(root, name));
     }
-    if (!path.isAbsolute(input) && workspaceRoot) {
-        return path.resolve(workspaceRoot, input);
-    }
-    return path.resolve(input);
+    return root ? folders.get(root) : undefined;
 }
 
-function resolveEnvAblePaths(): string[] {
-    if (!useEnvAblePath) {
-        return [];
-    }
-    const envPath = process.env.ABLEPATH;
-    if (!envPath) {
-        return [];
-    }
-    return envPath.split(path.delimiter).filter(Boolean);
+function allFolders(): Folder[] {
+    return [...folders.values(), looseFiles];
 }
 
-function updateSearchRoots(): void {
-    const roots = new Set<string>();
-    if (workspaceRoot) {
-        roots.add(workspaceRoot);
-        const libRoot = path.join(workspaceRoot, 'lib');
-        if (fs.existsSync(libRoot)) {
-            roots.add(libRoot);
-        }
-    }
-    for (const raw of stdlibPaths) {
-        const resolved = normalizePath(raw);
-        if (fs.existsSync(resolved)) {
-            roots.add(resolved);
-        }
-    }
-    for (const raw of resolveEnvAblePaths()) {
-        const resolved = normalizePath(raw);
-        if (fs.existsSync(resolved)) {
-            roots.add(resolved);
-        }
-    }
-    searchRoots = Array.from(roots);
+// Settings of the first folder apply to what the server shares between folders, such as the builtin catalog.
+function primaryFolder(): Folder {
+    return folders.values().next().value ?? looseFiles;
 }
 
-async function loadConfig(): Promise<void> {
+function folderForDocument(uri: string): Folder {
+    const filePath = uriToPath(uri);
+    const root = filePath ? folderForPath(folders.keys(), filePath) : null;
+    return (root && folders.get(root)) || looseFiles;
+}
+
+async function loadFolderConfig(folder: Folder): Promise<void> {
     if (hasConfigurationCapability) {
-        const config = await connection.workspace.getConfiguration('able');
-        stdlibPaths = Array.isArray(config?.stdlibPaths) ? config.stdlibPaths : [];
-        useEnvAblePath = config?.useEnvAblePath !== false;
+        const scopeUri = folder.root ? pathToFileURL(folder.root).href : undefined;
+        folder.settings = parseFolderSettings(await connection.workspace.getConfiguration({ scopeUri, section: 'able' }));
     } else {
-        stdlibPaths = [];
-        useEnvAblePath = true;
+        folder.settings = DEFAULT_FOLDER_SETTINGS;
     }
-    updateSearchRoots();
+    // Loose files have no folder of their own, so their relative paths resolve against the first one.
+    const base = folder.root ?? primaryFolder().root;
+    folder.index.setRoots(searchRootsFor(folder.root, folder.settings, base));
+    folder.index.setSettings(folder.settings.index);
+    folder.index.setCacheFile(folder.settings.indexCache && storagePath ? path.join(storagePath, cacheFileName(folder)) : null);
 }
 
-function moduleNameForFile(filePath: string): string | null {
-    for (const root of searchRoots) {
-        const rel = path.relative(root, filePath);
-        if (!rel || rel.startsWith('..')) {
-            continue;
-        }
-
-        const normalized = rel.replace(/\\/g, '/');
-        if (!normalized.endsWith('.abl')) {
-            continue;
-        }
-
-        const parts = normalized.split('/');
-        const last = parts[parts.length - 1];
+function cacheFileName(folder: Folder): string {
+    return `module-index-${createHash('sha1').update(folder.root ?? '').digest('hex').slice(0, 12)}.json`;
+}
 
-        if (last === '__init__.abl') {
-            parts.pop();
-        } else {
-            parts[parts.length - 1] = last.replace(/\.abl$/, '');
-        }
+async function loadConfig(): Promise<void> {
+    await Promise.all(allFolders().map(loadFolderConfig));
+    loadBuiltinCatalog();
+}
 
-        if (parts.length === 0) {
-            return null;
-        }
+// The toolchain's catalog describes the interpreter actually in use; the bundled one is the fallback.
+function loadBuiltinCatalog(): void {
+    const { root, settings } = primaryFolder();
+    const catalogPath = settings.builtinsCatalog
+        ? resolveSettingPath(settings.builtinsCatalog, root)
+        : findBuiltinCatalog(toolchainDirs(settings, root));
+    if (!catalogPath) {
+        setBuiltinCatalog(null);
+        return;
+    }
+    try {
+        setBuiltinCatalog(readBuiltinCatalog(catalogPath, DEFAULT_BUILTIN_CATALOG));
+    } catch (err) {
+        connection.console.warn(`Failed to read ${catalogPath}: ${String(err)}`);
+        setBuiltinCatalog(null);
+    }
+}
 
-        return parts.join('.');
+// Loose files are only indexed once a document outside every folder needs them.
+function reindexAll(): void {
+    for (const folder of allFolders()) {
+        folder.scheduled = false;
+    }
+    for (const folder of folders.values()) {
+        ensureIndexed(folder);
+    }
+    if (folders.size === 0 || documents.all().some((doc) => folderForDocument(doc.uri) === looseFiles)) {
+        ensureIndexed(looseFiles);
     }
-    return null;
 }
 
-async function collectAbleFiles(dir: string): Promise<string[]> {
-    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
-    const results: string[] = [];
+function ensureIndexed(folder: Folder): void {
+    if (!folder.scheduled) {
+        folder.scheduled = true;
+        void rebuildIndex(folder);
+    }
+}
 
-    for (const entry of entries) {
-        if (entry.name.startsWith('.')) {
-            continue;
-        }
-        if (SKIP_DIRS.has(entry.name)) {
-            continue;
+async function rebuildIndex(folder: Folder): Promise<void> {
+    folder.activeRebuilds += 1;
+    sendIndexStatus();
+    const progress = hasWorkDoneProgress ? await connection.window.createWorkDoneProgress().catch(() => null) : null;
+    progress?.begin(folder.root ? `Indexing Able modules in ${folder.name}` : 'Indexing Able modules', 0);
+    let percentage = 0;
+    const current = await folder.index.rebuild((done, total) => {
+        const next = Math.floor((done / total) * 100);
+        if (next > percentage) {
+            percentage = next;
+            progress?.report(next, `${done}/${total} files`);
         }
-
-        const full = path.join(dir, entry.name);
-        if (entry.isDirectory()) {
-            const nested = await collectAbleFiles(full);
-            results.push(...nested);
-        } else if (entry.isFile() && entry.name.endsWith('.abl')) {
-            results.push(full);
+    });
+    progress?.done();
+    folder.activeRebuilds -= 1;
+    if (!current) {
+        // A newer rebuild replaced this one and will refresh everything when it lands.
+        return;
+    }
+    // Open documents that were never saved are not found on disk.
+    for (const doc of documents.all()) {
+        const filePath = uriToPath(doc.uri);
+        if (filePath) {
+            folder.index.updateDocument(filePath, getParsedDocument(doc));
         }
     }
-
-    return results;
+    sendIndexStatus();
+    scheduleValidation(documents.all().filter((doc) => folderForDocument(doc.uri) === folder).map((doc) => doc.uri));
+    refreshSemanticTokens();
 }
 
-async function scanWorkspace(): Promise<void> {
-    moduleIndex.clear();
-    moduleByFile.clear();
+function sendIndexStatus(): void {
+    const indexed = allFolders().filter((folder) => folder.scheduled);
+    // Like workspace symbols, a module shared by several folders' search paths counts once.
+    const uris = new Set(indexed.flatMap((folder) => Array.from(folder.index.entries(), (entry) => entry.uri)));
+    const status: IndexStatus = {
+        indexing: indexed.some((folder) => folder.activeRebuilds > 0),
+        modules: uris.size,
+        limited: indexed.some((folder) => folder.index.limited)
+    };
+    void connection.sendNotification(INDEX_STATUS_NOTIFICATION, status);
+}
 
-    if (!workspaceRoot && searchRoots.length === 0) {
+// A file can sit on the search paths of several folders, e.g. a shared `ABLEPATH` library.
+async function applyIndexChanges(changes: FileChange[]): Promise<void> {
+    const uris: string[] = [];
+    for (const folder of allFolders().filter((candidate) => candidate.scheduled)) {
+        uris.push(...openDocumentsFor(folder, await folder.index.applyChanges(changes)));
+    }
+    if (uris.length === 0) {
         return;
     }
+    sendIndexStatus();
+    scheduleValidation(uris);
+    refreshSemanticTokens();
+}
 
-    const files: string[] = [];
-    for (const root of searchRoots) {
-        try {
-            const entries = await collectAbleFiles(root);
-            files.push(...entries);
-        } catch (err) {
-            connection.console.warn(`Failed to scan ${root}: ${String(err)}`);
-        }
+// Colours in open documents depend on what other modules declare.
+function refreshSemanticTokens(): void {
+    if (hasSemanticTokensRefresh) {
+        void connection.languages.semanticTokens.refresh();
     }
+}
 
-    await Promise.all(
-        files.map(async (filePath) => {
-            const moduleName = moduleNameForFile(filePath);
-            if (!moduleName) {
-                return;
-            }
-            try {
-                const text = await fs.promises.readFile(filePath, 'utf8');
-                const symbols = parseSymbols(text);
-                moduleIndex.set(moduleName, { moduleName, symbols });
-                moduleByFile.set(filePath, moduleName);
-            } catch (err) {
-                connection.console.warn(`Failed to read ${filePath}: ${String(err)}`);
-            }
+function openDocumentsFor(folder: Folder, modules: Set<string>): string[] {
+    if (modules.size === 0) {
+        return [];
+    }
+    return documents
+        .all()
+        .filter((doc) => {
+            const filePath = uriToPath(doc.uri);
+            const names = filePath ? folder.index.moduleNamesForFile(filePath) : [];
+            return folderForDocument(doc.uri) === folder && names.some((moduleName) => modules.has(moduleName));
         })
-    );
+        .map((doc) => doc.uri);
 }
 
-function updateDocumentSymbols(doc: TextDocument): void {
+// Returns the open documents whose diagnostics may change along with `doc`.
+function updateDocumentSymbols(doc: TextDocument): string[] {
     const filePath = uriToPath(doc.uri);
     if (!filePath) {
-        return;
+        return [];
+    }
+    const uris: string[] = [];
+    for (const folder of allFolders()) {
+        uris.push(...openDocumentsFor(folder, folder.index.updateDocument(filePath, getParsedDocument(doc))));
     }
+    return uris;
+}
 
-    const moduleName = moduleNameForFile(filePath);
-    if (!moduleName) {
-        return;
+function getResolver(doc: TextDocument): ModuleIndex {
+    return folderForDocument(doc.uri).index;
+}
+
+function getParsedDocument(doc: TextDocument): ParseResult {
+    const cached = parsedDocuments.get(doc.uri);
+    if (cached && cached.version === doc.version) {
+        return cached.parsed;
     }
+    const parsed = parse(doc.getText());
+    parsedDocuments.set(doc.uri, { version: doc.version, parsed });
+    return parsed;
+}
 
-    const symbols = parseSymbols(doc.getText());
-    moduleIndex.set(moduleName, { moduleName, symbols });
-    moduleByFile.set(filePath, moduleName);
+function getDocumentContext(doc: TextDocument): ModuleContext {
+    const parsed = getParsedDocument(doc);
+    const filePath = uriToPath(doc.uri);
+    return {
+        uri: doc.uri,
+        moduleName: filePath ? getResolver(doc).moduleNameForFile(filePath) : null,
+        program: parsed.program,
+        comments: parsed.comments,
+        binding: bindProgram(parsed.program)
+    };
 }
 
 function uriToPath(uri: string): string | null {
@@ -302,12 +298,72 @@ function uriToPath(uri: string): string | null {
     return null;
 }
 
-function gatherWorkspaceSymbols(): SymbolSet {
-    const combined = emptySymbols();
-    for (const entry of moduleIndex.values()) {
-        mergeSymbols(combined, entry.symbols);
+function getFormatOptions(doc: TextDocument): FormatOptions {
+    const filePath = uriToPath(doc.uri);
+    const configPath = filePath ? findFormatConfig(path.dirname(filePath)) : null;
+    let fileOptions: Partial<FormatOptions> = {};
+    if (configPath) {
+        try {
+            fileOptions = readFormatConfig(configPath);
+        } catch (err) {
+            connection.console.warn(`Failed to read ${configPath}: ${String(err)}`);
+        }
+    }
+    return resolveFormatOptions(folderForDocument(doc.uri).settings.format, fileOptions);
+}
+
+function validateDocument(doc: TextDocument): void {
+    const context = getDocumentContext(doc);
+    const resolver = getResolver(doc);
+    const diagnostics = [
+        ...syntaxDiagnostics(getParsedDocument(doc).errors),
+        ...checkImports(resolver, context, {
+            isBuiltinModule: (name) => !!getBuiltinModule(name),
+            hasModulePrefix: (name) => Array.from(resolver.listModules()).some((moduleName) => moduleName.startsWith(`${name}.`))
+        }),
+        ...checkNames(context)
+    ];
+    const filePath = uriToPath(doc.uri);
+    if (filePath) {
+        diagnostics.push(...checkModuleResolution(resolver, filePath));
     }
-    return combined;
+    void connection.sendDiagnostics({ uri: doc.uri, diagnostics });
+}
+
+// Without `uris` every open document is revalidated.
+function scheduleValidation(uris?: Iterable<string>): void {
+    if (!uris) {
+        pendingValidation = null;
+    } else if (pendingValidation) {
+        for (const uri of uris) {
+            pendingValidation.add(uri);
+        }
+    }
+    if (validationTimer) {
+        clearTimeout(validationTimer);
+    }
+    validationTimer = setTimeout(() => {
+        validationTimer = undefined;
+        const pending = pendingValidation;
+        pendingValidation = new Set();
+        for (const doc of documents.all()) {
+            // Until the first scan of its folder completes the index is empty; the scan revalidates it when it finishes.
+            if ((!pending || pending.has(doc.uri)) && getResolver(doc).ready) {
+                validateDocument(doc);
+            }
+        }
+    }, VALIDATION_DELAY_MS);
+}
+
+function getAllContexts(doc: TextDocument): ModuleContext[] {
+    const current = getDocumentContext(doc);
+    const contexts = [current];
+    for (const entry of getResolver(doc).entries()) {
+        if (entry.uri !== current.uri) {
+            contexts.push(contextForEntry(entry));
+        }
+    }
+    return contexts;
 }
 
 function getModuleEntryForDoc(doc: TextDocument): ModuleEntry | undefined {
@@ -315,14 +371,15 @@ function getModuleEntryForDoc(doc: TextDocument): ModuleEntry | undefined {
     if (!filePath) {
         return undefined;
     }
-    const moduleName = moduleNameForFile(filePath);
+    const resolver = getResolver(doc);
+    const moduleName = resolver.moduleNameForFile(filePath);
     if (!moduleName) {
         return undefined;
     }
-    return moduleIndex.get(moduleName);
+    return resolver.getModule(moduleName);
 }
 
-function getMemberCompletions(target: string, entry?: ModuleEntry): CompletionItem[] {
+function getIndexedMemberCompletions(target: string, entry?: ModuleEntry): CompletionItem[] {
     if (!entry) {
         return [];
     }
@@ -350,9 +407,9 @@ function toCompletionItems(items: Iterable<string>, kind: CompletionItemKind): C
     return completions;
 }
 
-function getImportCompletions(prefix: string): CompletionItem[] {
-    const modules = new Set<string>(BUILTIN_MODULES);
-    for (const name of moduleIndex.keys()) {
+function getImportCompletions(resolver: ModuleIndex, prefix: string): CompletionItem[] {
+    const modules = new Set<string>(getBuiltinCatalog().modules.map((module) => module.name));
+    for (const name of resolver.listModules()) {
         modules.add(name);
     }
 
@@ -360,22 +417,8 @@ function getImportCompletions(prefix: string): CompletionItem[] {
     return toCompletionItems(filtered, CompletionItemKind.Module);
 }
 
-function getModuleExports(moduleName: string): CompletionItem[] {
-    const entry = moduleIndex.get(moduleName);
-    if (!entry) {
-        return [];
-    }
-
-    const symbols = entry.symbols;
-    return [
-        ...toCompletionItems(symbols.functions, CompletionItemKind.Function),
-        ...toCompletionItems(symbols.classes, CompletionItemKind.Class),
-        ...toCompletionItems(symbols.variables, CompletionItemKind.Variable)
-    ];
-}
-
-function getFromImportCompletions(moduleName: string, prefix: string): CompletionItem[] {
-    const exports = getModuleExports(moduleName);
+function getFromImportCompletions(resolver: ModuleIndex, moduleName: string, prefix: string): CompletionItem[] {
+    const exports = getModuleCompletions(resolver, moduleName);
     if (!prefix) {
         return exports;
     }
@@ -384,19 +427,55 @@ function getFromImportCompletions(moduleName: string, prefix: string): Completio
 
 connection.onInitialize((params) => {
     hasConfigurationCapability = !!(params.capabilities.workspace && params.capabilities.workspace.configuration);
+    hasSemanticTokensRefresh = !!params.capabilities.workspace?.semanticTokens?.refreshSupport;
+    hasWorkDoneProgress = !!params.capabilities.window?.workDoneProgress;
+    hasWorkspaceFolderCapability = !!params.capabilities.workspace?.workspaceFolders;
     if (params.workspaceFolders && params.workspaceFolders.length > 0) {
-        workspaceRoot = fileURLToPath(params.workspaceFolders[0].uri);
+        params.workspaceFolders.forEach((folder) => addFolder(folder.uri, folder.name));
     } else if (params.rootUri) {
-        workspaceRoot = fileURLToPath(params.rootUri);
+        addFolder(params.rootUri, path.basename(fileURLToPath(params.rootUri)));
     } else if (params.rootPath) {
-        workspaceRoot = params.rootPath;
+        addFolder(pathToFileURL(params.rootPath).href, path.basename(params.rootPath));
     }
+    const options = params.initializationOptions as { storagePath?: unknown } | undefined;
+    storagePath = typeof options?.storagePath === 'string' ? options.storagePath : null;
 
     return {
         capabilities: {
             textDocumentSync: TextDocumentSyncKind.Incremental,
             completionProvider: {
-                resolveProvider: false
+                resolveProvider: false,
+                triggerCharacters: ['.']
+            },
+            definitionProvider: true,
+            hoverProvider: true,
+            signatureHelpProvider: {
+                triggerCharacters: ['(', ',']
+            },
+            referencesProvider: true,
+            renameProvider: {
+                prepareProvider: true
+            },
+            documentSymbolProvider: true,
+            workspaceSymbolProvider: true,
+            codeActionProvider: {
+                codeActionKinds: [CodeActionKind.QuickFix, CodeActionKind.SourceOrganizeImports]
+            },
+            documentFormattingProvider: true,
+            documentRangeFormattingProvider: true,
+            documentOnTypeFormattingProvider: {
+                firstTriggerCharacter: ON_TYPE_TRIGGERS[0],
+                moreTriggerCharacter: ON_TYPE_TRIGGERS.slice(1)
+            },
+            semanticTokensProvider: {
+                legend: SEMANTIC_TOKENS_LEGEND,
+                full: { delta: true }
+            },
+            workspace: {
+                workspaceFolders: {
+                    supported: true,
+                    changeNotifications: true
+                }
             }
         }
     };
@@ -406,30 +485,72 @@ connection.onInitialized(() => {
     if (hasConfigurationCapability) {
         void connection.client.register(DidChangeConfigurationNotification.type, undefined);
     }
-    void loadConfig().then(() => {
-        void scanWorkspace();
-    });
+    if (hasWorkspaceFolderCapability) {
+        connection.workspace.onDidChangeWorkspaceFolders(async (event) => {
+            for (const removed of event.removed) {
+                const root = uriToPath(removed.uri);
+                if (root) {
+                    folders.delete(root);
+                }
+            }
+            const added = event.added.map((folder) => addFolder(folder.uri, folder.name));
+            // Loose files resolve relative paths against the first folder, which may have changed.
+            await loadConfig();
+            added.forEach((folder) => folder && ensureIndexed(folder));
+            if (documents.all().some((doc) => folderForDocument(doc.uri) === looseFiles)) {
+                ensureIndexed(looseFiles);
+            }
+            // Documents may now belong to another folder.
+            sendIndexStatus();
+            scheduleValidation();
+            refreshSemanticTokens();
+        });
+    }
+    void loadConfig().then(reindexAll);
 });
 
-connection.onDidChangeWatchedFiles(() => {
-    void scanWorkspace();
+connection.onDidChangeWatchedFiles((params) => {
+    // Ignore rules can change which files belong in the index at all.
+    if (params.changes.some((change) => change.uri.endsWith(`/${ABLEIGNORE_FILE}`))) {
+        allFolders()
+            .filter((folder) => folder.scheduled)
+            .forEach((folder) => void rebuildIndex(folder));
+        return;
+    }
+    const changes: FileChange[] = [];
+    for (const change of params.changes) {
+        const filePath = uriToPath(change.uri);
+        if (filePath) {
+            changes.push({ filePath, type: FILE_CHANGE_TYPES[change.type] ?? 'changed' });
+        }
+    }
+    void applyIndexChanges(changes);
 });
 
 connection.onDidChangeConfiguration(async () => {
     await loadConfig();
-    void scanWorkspace();
+    reindexAll();
 });
 
 documents.onDidOpen((event) => {
-    updateDocumentSymbols(event.document);
+    ensureIndexed(folderForDocument(event.document.uri));
+    scheduleValidation([event.document.uri, ...updateDocumentSymbols(event.document)]);
 });
 
 documents.onDidChangeContent((event) => {
-    updateDocumentSymbols(event.document);
+    scheduleValidation([event.document.uri, ...updateDocumentSymbols(event.document)]);
 });
 
-documents.onDidClose(() => {
-    void scanWorkspace();
+documents.onDidClose((event) => {
+    parsedDocuments.delete(event.document.uri);
+    semanticTokens.delete(event.document.uri);
+    pendingValidation?.delete(event.document.uri);
+    void connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+    // Unsaved edits are dropped, so the module falls back to what is on disk.
+    const filePath = uriToPath(event.document.uri);
+    if (filePath) {
+        void applyIndexChanges([{ filePath, type: 'changed' }]);
+    }
 });
 
 connection.onCompletion((params) => {
@@ -443,27 +564,28 @@ connection.onCompletion((params) => {
         end: params.position
     });
 
-    const memberMatch = lineText.match(/([A-Za-z_][A-Za-z0-9_]*)\.$/);
-    if (memberMatch) {
-        const entry = getModuleEntryForDoc(doc);
-        const completions = getMemberCompletions(memberMatch[1], entry);
-        if (completions.length > 0) {
-            return completions;
+    const resolver = getResolver(doc);
+    const receiver = memberReceiverAt(lineText);
+    if (receiver) {
+        const inferred = getMemberCompletions(resolver, getDocumentContext(doc), receiver, params.position.line);
+        if (inferred.length > 0) {
+            return inferred;
         }
+        return getIndexedMemberCompletions(receiver.text, getModuleEntryForDoc(doc));
     }
 
     const decoratorMatch = lineText.match(/^\s*@([A-Za-z0-9_]*)$/);
     if (decoratorMatch) {
         const prefix = decoratorMatch[1] ?? '';
         return toCompletionItems(
-            BUILTIN_DECORATORS.filter((name) => name.startsWith(prefix)),
+            getBuiltinCatalog().decorators.map((decorator) => decorator.name).filter((name) => name.startsWith(prefix)),
             CompletionItemKind.Function
         );
     }
 
     const importMatch = lineText.match(/^\s*import\s+([A-Za-z0-9_.]*)$/);
     if (importMatch) {
-        return getImportCompletions(importMatch[1] ?? '');
+        return getImportCompletions(resolver, importMatch[1] ?? '');
     }
 
     const fromMatch = lineText.match(/^\s*from\s+([A-Za-z0-9_.]+)\s+import\s+([A-Za-z0-9_,\s]*)$/);
@@ -472,20 +594,173 @@ connection.onCompletion((params) => {
         const importList = fromMatch[2] ?? '';
         const parts = importList.split(',');
         const prefix = parts[parts.length - 1].trim();
-        return getFromImportCompletions(moduleName, prefix);
+        return getFromImportCompletions(resolver, moduleName, prefix);
     }
 
-    const localSymbols = gatherWorkspaceSymbols();
-    const completions: CompletionItem[] = [
-        ...toCompletionItems(BUILTIN_KEYWORDS, CompletionItemKind.Keyword),
-        ...toCompletionItems(BUILTIN_TYPES, CompletionItemKind.Class),
-        ...toCompletionItems(BUILTIN_FUNCTIONS, CompletionItemKind.Function),
-        ...toCompletionItems(localSymbols.functions, CompletionItemKind.Function),
-        ...toCompletionItems(localSymbols.classes, CompletionItemKind.Class),
-        ...toCompletionItems(localSymbols.variables, CompletionItemKind.Variable)
-    ];
+    const prefix = lineText.match(/[A-Za-z_][A-Za-z0-9_]*$/)?.[0] ?? '';
+    return getScopeCompletions(resolver, getDocumentContext(doc), params.position, prefix);
+});
 
-    return completions;
+connection.onDefinition((params): Location[] => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return [];
+    }
+    return findDefinition(getResolver(doc), getDocumentContext(doc), params.position);
+});
+
+connection.onHover((params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return null;
+    }
+    return getHover(getResolver(doc), getDocumentContext(doc), params.position);
+});
+
+connection.onSignatureHelp((params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return null;
+    }
+    const tokens = getParsedDocument(doc).tokens;
+    return getSignatureHelp(getResolver(doc), getDocumentContext(doc), tokens, params.position);
+});
+
+connection.onReferences((params): Location[] => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return [];
+    }
+    return findReferences(
+        getResolver(doc),
+        getDocumentContext(doc),
+        params.position,
+        getAllContexts(doc),
+        params.context.includeDeclaration
+    );
+});
+
+connection.onPrepareRename((params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return null;
+    }
+    return prepareRename(getResolver(doc), getDocumentContext(doc), params.position);
+});
+
+connection.onRenameRequest((params): WorkspaceEdit | null => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return null;
+    }
+    if (!isValidIdentifier(params.newName)) {
+        throw new ResponseError(ErrorCodes.InvalidParams, `'${params.newName}' is not a valid Able identifier`);
+    }
+    const changes = renameSymbol(getResolver(doc), getDocumentContext(doc), params.position, params.newName, getAllContexts(doc));
+    return changes ? { changes } : null;
+});
+
+connection.onDocumentSymbol((params): DocumentSymbol[] => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return [];
+    }
+    return getDocumentSymbols(getDocumentContext(doc));
+});
+
+connection.onWorkspaceSymbol((params): SymbolInformation[] => {
+    // A module on the library paths of several folders is listed once.
+    const entries = new Map<string, ModuleEntry>();
+    for (const folder of allFolders()) {
+        for (const entry of folder.index.entries()) {
+            entries.set(entry.uri, entries.get(entry.uri) ?? entry);
+        }
+    }
+    return searchWorkspaceSymbols(entries.values(), params.query);
+});
+
+connection.onCodeAction((params): CodeAction[] => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return [];
+    }
+    const only = params.context.only;
+    const wants = (kind: string) => !only || only.some((requested) => kind === requested || kind.startsWith(`${requested}.`));
+    const resolver = getResolver(doc);
+    const context = getDocumentContext(doc);
+    const actions: CodeAction[] = [];
+    if (wants(CodeActionKind.QuickFix)) {
+        const options = getFormatOptions(doc);
+        const indent = options.useTabs ? '\t' : ' '.repeat(options.indentSize);
+        actions.push(...getCodeActions(resolver, context, params.range, indent, params.context.diagnostics));
+    }
+    if (wants(CodeActionKind.SourceOrganizeImports)) {
+        const organize = organizeImportsAction(context, doc.getText(), {
+            groupOf: (name) => {
+                if (getBuiltinModule(name)) {
+                    return 'builtin';
+                }
+                return resolver.candidates(name)[0]?.root.kind === 'library' ? 'library' : 'workspace';
+            }
+        });
+        if (organize) {
+            actions.push(organize);
+        }
+    }
+    return actions;
+});
+
+connection.onDocumentFormatting((params): TextEdit[] => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return [];
+    }
+    return formatDocument(doc.getText(), getFormatOptions(doc));
+});
+
+connection.onDocumentRangeFormatting((params): TextEdit[] => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return [];
+    }
+    return formatRange(doc.getText(), params.range, getFormatOptions(doc));
+});
+
+connection.onDocumentOnTypeFormatting((params): TextEdit[] => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return [];
+    }
+    return formatOnType(doc.getText(), params.position, params.ch, getFormatOptions(doc));
+});
+
+connection.languages.semanticTokens.on((params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return { data: [] };
+    }
+    return semanticTokens.full(doc.uri, collectSemanticTokens(getResolver(doc), getDocumentContext(doc)));
+});
+
+connection.languages.semanticTokens.onDelta((params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) {
+        return { edits: [] };
+    }
+    return semanticTokens.delta(doc.uri, params.previousResultId, collectSemanticTokens(getResolver(doc), getDocumentContext(doc)));
+});
+
+connection.onRequest(MODULE_RESOLUTION_REQUEST, (): string => {
+    const indexed = allFolders().filter((folder) => folder.scheduled);
+    if (indexed.length === 0) {
+        return 'No Able modules are indexed yet.\n';
+    }
+    return indexed
+        .map((folder) => {
+            const title = folder.root ? `Module resolution: ${folder.name}` : 'Module resolution: files outside the workspace';
+            return describeModuleResolution(title, folder.index);
+        })
+        .join('\n');
 });
 
 documents.listen(connection);
@@ -0,0 +1,174 @@
+import { ClassDeclaration, FunctionDeclaration, Position, printExpression } from './ast';
+import { BuiltinFunction, formatBuiltinSignature, getBuiltinDecorator, getBuiltinFunction } from './builtins';
+import { CONSTRUCTOR_NAMES, Resolution, findMethod } from './inference';
+import { leadingComment } from './hover';
+import { Token } from './lexer';
+import { ModuleContext, ModuleResolver } from './modules';
+import { targetAt } from './navigation';
+
+export type SignatureResult = {
+    signatures: Array<{
+        label: string;
+        documentation?: { kind: 'markdown'; value: string };
+        parameters: Array<{ label: [number, number] }>;
+    }>;
+    activeSignature: number;
+    activeParameter: number;
+};
+
+type CallSite = {
+    callee: Token;
+    decorator: boolean;
+    member: boolean;
+    activeParameter: number;
+};
+
+function isBefore(token: Token, position: Position): boolean {
+    const end = token.range.end;
+    return end.line < position.line || (end.line === position.line && end.character <= position.character);
+}
+
+function findCallSite(tokens: Token[], position: Position): CallSite | null {
+    let index = -1;
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (!isBefore(token, position)) {
+            break;
+        }
+        if (token.kind !== 'newline' && token.kind !== 'indent' && token.kind !== 'dedent') {
+            index = i;
+        }
+    }
+
+    let depth = 0;
+    let activeParameter = 0;
+    for (let i = index; i >= 0; i--) {
+        const token = tokens[i];
+        if (token.kind === 'newline' || token.kind === 'indent' || token.kind === 'dedent') {
+            return null;
+        }
+        if (token.kind !== 'operator') {
+            continue;
+        }
+        if (token.value === ')' || token.value === ']' || token.value === '}') {
+            depth += 1;
+        } else if (token.value === '(' || token.value === '[' || token.value === '{') {
+            if (depth > 0) {
+                depth -= 1;
+                continue;
+            }
+            const callee = tokens[i - 1];
+            if (token.value === '(' && callee && callee.kind === 'name') {
+                const previous = tokens[i - 2];
+                return {
+                    callee,
+                    decorator: previous?.kind === 'operator' && previous.value === '@',
+                    member: previous?.kind === 'operator' && previous.value === '.',
+                    activeParameter
+                };
+            }
+            activeParameter = 0;
+        } else if (token.value === ',' && depth === 0) {
+            activeParameter += 1;
+        }
+    }
+    return null;
+}
+
+function buildSignature(label: string, paramLabels: string[], documentation: string | null): SignatureResult['signatures'][number] {
+    const open = label.indexOf('(') + 1;
+    const parameters: Array<{ label: [number, number] }> = [];
+    let offset = open;
+    for (const param of paramLabels) {
+        parameters.push({ label: [offset, offset + param.length] });
+        offset += param.length + 2;
+    }
+    return documentation ? { label, parameters, documentation: { kind: 'markdown', value: documentation } } : { label, parameters };
+}
+
+function builtinSignature(fn: BuiltinFunction, prefix: string): SignatureResult['signatures'][number] {
+    return buildSignature(formatBuiltinSignature(fn, prefix), fn.params, fn.doc);
+}
+
+function functionSignature(
+    context: ModuleContext,
+    node: FunctionDeclaration,
+    displayName: string,
+    bound: boolean,
+    asConstructor = false
+): SignatureResult['signatures'][number] {
+    const params = node.params.filter((param, index) => !(bound && index === 0 && param.name.name === 'this'));
+    const labels = params.map((param) =>
+        param.defaultValue ? `${param.name.name} = ${printExpression(param.defaultValue)}` : param.name.name
+    );
+    const keyword = asConstructor ? '' : `${node.isAsync ? 'async ' : ''}fun `;
+    const label = `${keyword}${displayName}(${labels.join(', ')})`;
+    return buildSignature(label, labels, leadingComment(context.comments, node.range.start.line));
+}
+
+function classSignature(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    node: ClassDeclaration
+): SignatureResult['signatures'][number] {
+    for (const name of CONSTRUCTOR_NAMES) {
+        const constructor = findMethod(resolver, context, node, name);
+        if (constructor?.kind === 'symbol' && constructor.declaration.node?.kind === 'Function') {
+            return functionSignature(constructor.context, constructor.declaration.node, node.name.name, true, true);
+        }
+    }
+    return buildSignature(`${node.name.name}()`, [], leadingComment(context.comments, node.range.start.line));
+}
+
+function resolutionSignature(
+    resolver: ModuleResolver,
+    resolution: Resolution,
+    member: boolean
+): SignatureResult['signatures'][number] | null {
+    if (resolution.kind !== 'symbol') {
+        return null;
+    }
+    const { context, declaration } = resolution;
+    const node = declaration.node;
+    if (node?.kind === 'Function') {
+        return functionSignature(context, node, node.name.name, member && declaration.kind === 'method');
+    }
+    if (node?.kind === 'Class') {
+        return classSignature(resolver, context, node);
+    }
+    return null;
+}
+
+export function getSignatureHelp(
+    resolver: ModuleResolver,
+    context: ModuleContext,
+    tokens: Token[],
+    position: Position
+): SignatureResult | null {
+    const site = findCallSite(tokens, position);
+    if (!site) {
+        return null;
+    }
+
+    let signature: SignatureResult['signatures'][number] | null = null;
+    if (site.decorator) {
+        const decorator = getBuiltinDecorator(site.callee.value);
+        signature = decorator ? builtinSignature(decorator, '@') : null;
+    } else {
+        const target = targetAt(resolver, context, site.callee.range.start);
+        if (target?.resolution) {
+            signature = resolutionSignature(resolver, target.resolution, site.member);
+        } else if (!site.member) {
+            const fn = getBuiltinFunction(site.callee.value);
+            signature = fn ? builtinSignature(fn, '') : null;
+        }
+    }
+    if (!signature) {
+        return null;
+    }
+
+    const last = signature.parameters.length - 1;
+    const variadic = last >= 0 && signature.label.slice(...signature.parameters[last].label).startsWith('...');
+    const activeParameter = variadic ? Math.min(site.activeParameter, last) : site.activeParameter;
+    return { signatures: [signature], activeSignature: 0, activeParameter };
+}
@@ -1,8 +1,12 @@
+import { Program, Statement, childBlocks, fieldAssignments } from './ast';
+import { parse } from './parser';
+
 export type SymbolSet = {
     functions: Set<string>;
     classes: Set<string>;
     variables: Set<string>;
     classMethods: Map<string, Set<string>>;
+    classFields: Map<string, Set<string>>;
     variableTypes: Map<string, string>;
     objectProperties: Map<string, Set<string>>;
 };
@@ -13,6 +17,7 @@ export function emptySymbols(): SymbolSet {
         classes: new Set<string>(),
         variables: new Set<string>(),
         classMethods: new Map<string, Set<string>>(),
+        classFields: new Map<string, Set<string>>(),
         variableTypes: new Map<string, string>(),
         objectProperties: new Map<string, Set<string>>()
     };
@@ -27,152 +32,52 @@ function addSymbol(map: Map<string, Set<string>>, key: string, value: string): v
     bucket.add(value);
 }
 
-function getIndentLevel(line: string): number {
-    let width = 0;
-    for (const ch of line) {
-        if (ch === ' ') {
-            width += 1;
-            continue;
-        }
-        if (ch === '\t') {
-            width += 4;
-            continue;
-        }
-        break;
-    }
-    return Math.floor((width + 2) / 4);
-}
-
-function stripLineComment(line: string, inBlockComment: boolean): { text: string; inBlockComment: boolean } {
-    let output = '';
-    let inString = false;
-    let escaped = false;
-    let i = 0;
-
-    while (i < line.length) {
-        if (!inString && !escaped && line.startsWith('##', i)) {
-            inBlockComment = !inBlockComment;
-            i += 2;
-            continue;
-        }
-
-        if (inBlockComment) {
-            i += 1;
-            continue;
-        }
-
-        const ch = line[i];
-        if (!inString && ch === '#') {
-            break;
-        }
-
-        if (ch === '\\' && !escaped) {
-            escaped = true;
-            output += ch;
-            i += 1;
-            continue;
+function collectObjectKeys(symbols: SymbolSet, statements: Statement[]): void {
+    for (const statement of statements) {
+        if (statement.kind === 'Assignment' && statement.target.kind === 'Identifier' && statement.value.kind === 'Object') {
+            for (const property of statement.value.properties) {
+                addSymbol(symbols.objectProperties, statement.target.name, property.name);
+            }
         }
-
-        if (ch === '"' && !escaped) {
-            inString = !inString;
+        for (const block of childBlocks(statement)) {
+            collectObjectKeys(symbols, block);
         }
-
-        escaped = false;
-        output += ch;
-        i += 1;
-    }
-
-    return { text: output, inBlockComment };
-}
-
-function extractObjectKeys(text: string): string[] {
-    const keys: string[] = [];
-    const idRegex = /([A-Za-z_][A-Za-z0-9_]*)\s*:/g;
-    const strRegex = /"([^"]+)"\s*:/g;
-    let match: RegExpExecArray | null;
-
-    while ((match = idRegex.exec(text))) {
-        keys.push(match[1]);
     }
-    while ((match = strRegex.exec(text))) {
-        keys.push(match[1]);
-    }
-
-    return keys;
 }
 
-export function parseSymbols(text: string): SymbolSet {
+export function collectSymbols(program: Program): SymbolSet {
     const symbols = emptySymbols();
-    const lines = text.split(/\r?\n/);
-    const classStack: Array<{ name: string; indent: number }> = [];
-    let activeObject: { name: string; indent: number } | null = null;
-    let inBlockComment = false;
 
-    for (const line of lines) {
-        const stripped = stripLineComment(line, inBlockComment);
-        inBlockComment = stripped.inBlockComment;
-        const content = stripped.text;
-
-        if (content.trim() === '') {
-            continue;
-        }
-
-        const indent = getIndentLevel(content);
-        while (classStack.length > 0 && indent <= classStack[classStack.length - 1].indent) {
-            classStack.pop();
-        }
-
-        const classMatch = content.match(/^\s*class\s+([A-Za-z_][A-Za-z0-9_]*)/);
-        if (classMatch) {
-            const name = classMatch[1];
-            symbols.classes.add(name);
-            classStack.push({ name, indent });
-            continue;
-        }
-
-        const funMatch = content.match(/^\s*(?:async\s+)?fun\s+([A-Za-z_][A-Za-z0-9_]*)/);
-        if (funMatch) {
-            const name = funMatch[1];
-            if (classStack.length > 0) {
-                const owner = classStack[classStack.length - 1].name;
-                addSymbol(symbols.classMethods, owner, name);
-            } else {
-                symbols.functions.add(name);
+    for (const statement of program.body) {
+        if (statement.kind === 'Class') {
+            symbols.classes.add(statement.name.name);
+            for (const member of statement.body) {
+                if (member.kind === 'Function') {
+                    addSymbol(symbols.classMethods, statement.name.name, member.name.name);
+                    for (const { property } of fieldAssignments(member)) {
+                        addSymbol(symbols.classFields, statement.name.name, property.name);
+                    }
+                }
             }
-            continue;
-        }
-
-        const classAssignMatch = content.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*([A-Za-z_][A-Za-z0-9_]*)\s*\(/);
-        if (classAssignMatch && indent === 0) {
-            symbols.variableTypes.set(classAssignMatch[1], classAssignMatch[2]);
-        }
-
-        const objectStartMatch = content.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*\{/);
-        if (objectStartMatch) {
-            activeObject = { name: objectStartMatch[1], indent };
-        }
-
-        if (activeObject) {
-            for (const key of extractObjectKeys(content)) {
-                addSymbol(symbols.objectProperties, activeObject.name, key);
-            }
-
-            if (content.includes('}')) {
-                activeObject = null;
-            } else if (indent <= activeObject.indent && !objectStartMatch) {
-                activeObject = null;
+        } else if (statement.kind === 'Function') {
+            symbols.functions.add(statement.name.name);
+        } else if (statement.kind === 'Assignment' && statement.target.kind === 'Identifier') {
+            const name = statement.target.name;
+            symbols.variables.add(name);
+            if (statement.value.kind === 'Call' && statement.value.callee.kind === 'Identifier') {
+                symbols.variableTypes.set(name, statement.value.callee.name);
             }
         }
-
-        const varMatch = content.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=/);
-        if (varMatch && indent === 0) {
-            symbols.variables.add(varMatch[1]);
-        }
     }
 
+    collectObjectKeys(symbols, program.body);
     return symbols;
 }
 
+export function parseSymbols(text: string): SymbolSet {
+    return collectSymbols(parse(text).program);
+}
+
 export function mergeSymbols(target: SymbolSet, source: SymbolSet): void {
     for (const fn of source.functions) {
         target.functions.add(fn);
@@ -188,6 +93,11 @@ export function mergeSymbols(target: SymbolSet, source: SymbolSet): void {
             addSymbol(target.classMethods, owner, method);
         }
     }
+    for (const [owner, fields] of source.classFields.entries()) {
+        for (const field of fields) {
+            addSymbol(target.classFields, owner, field);
+        }
+    }
 }
 
 export function getMemberCandidates(symbols: SymbolSet, target: string): { methods: string[]; properties: string[] } {
@@ -200,6 +110,10 @@ export function getMemberCandidates(symbols: SymbolSet, target: string): { metho
         if (classMethods) {
             methods.push(...classMethods);
         }
+        const classFields = symbols.classFields.get(className);
+        if (classFields) {
+            properties.push(...classFields);
+        }
     }
 
     const props = symbols.objectProperties.get(target);
@@ -0,0 +1,45 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    BUILTIN_CATALOG_FILE,
+    DEFAULT_BUILTIN_CATALOG,
+    findBuiltinCatalog,
+    getBuiltinCatalog,
+    getBuiltinFunction,
+    getBuiltinModule,
+    parseBuiltinCatalog,
+    readBuiltinCatalog,
+    setBuiltinCatalog
+} from '../builtins';
+
+// The bundled catalog covers every section.
+assert.equal(DEFAULT_BUILTIN_CATALOG.format, 1);
+assert(DEFAULT_BUILTIN_CATALOG.keywords.includes('fun'));
+assert.equal(getBuiltinFunction('len')?.returns, 'Number');
+// It names the interpreter's modules so their imports resolve.
+assert.deepEqual(getBuiltinModule('math'), { name: 'math', doc: '' });
+
+// Overrides replace the sections they list, drop malformed entries and must declare the format.
+const override = parseBuiltinCatalog(
+    { format: 1, version: '0.2', functions: [{ name: 'shout', params: ['text'] }, { params: [] }] },
+    DEFAULT_BUILTIN_CATALOG
+);
+assert.equal(override.version, '0.2');
+assert.deepEqual(override.functions, [{ name: 'shout', params: ['text'], returns: 'Undefined', doc: '' }]);
+assert.equal(override.types, DEFAULT_BUILTIN_CATALOG.types);
+assert.throws(() => parseBuiltinCatalog({ format: 2 }), /format/);
+
+const toolchain = fs.mkdtempSync(path.join(os.tmpdir(), 'able-builtins-'));
+const modules = [{ name: 'math', doc: 'Numeric helpers.' }, { doc: 'unnamed' }];
+fs.writeFileSync(path.join(toolchain, BUILTIN_CATALOG_FILE), JSON.stringify({ format: 1, functions: [{ name: 'shout' }], modules }));
+const catalogPath = findBuiltinCatalog([path.join(toolchain, 'missing'), toolchain]);
+assert.equal(catalogPath, path.join(toolchain, BUILTIN_CATALOG_FILE));
+setBuiltinCatalog(readBuiltinCatalog(catalogPath!, DEFAULT_BUILTIN_CATALOG));
+assert(getBuiltinFunction('shout'));
+assert.equal(getBuiltinFunction('len'), undefined);
+assert.deepEqual(getBuiltinCatalog().modules, [{ name: 'math', doc: 'Numeric helpers.' }]);
+setBuiltinCatalog(null);
+assert(getBuiltinFunction('len'));
+fs.rmSync(toolchain, { recursive: true, force: true });
@@ -0,0 +1,82 @@
+import { strict as assert } from 'assert';
+import { CodeAction, TextEdit } from 'vscode-languageserver/node';
+import { computeLineStarts, offsetAt } from '../lexer';
+import { ModuleEntry, ModuleResolver } from '../modules';
+import { findUnresolvedReferences, findUnusedImports } from '../analysis';
+import { getCodeActions } from '../codeActions';
+import { checkNames } from '../diagnostics';
+import { documentContext, moduleEntry } from './fixtures';
+
+const modules = new Map<string, ModuleEntry>([
+    ['models', moduleEntry('models', 'class User:\n    fun init(this, name):\n        this.name = name\n')],
+    ['legacy', moduleEntry('legacy', 'class User:\n    fun init(this):\n        return null\n')],
+    ['text', moduleEntry('text', 'fun slugify(value):\n    return value\n\nfrom models import User\n')]
+]);
+const resolver: ModuleResolver = { getModule: (name) => modules.get(name), listModules: () => modules.keys() };
+
+function apply(text: string, action: CodeAction): string {
+    const edits = action.edit?.changes?.['file:///ws/main.abl'] as TextEdit[];
+    const lineStarts = computeLineStarts(text);
+    const sorted = [...edits].sort((a, b) => offsetAt(lineStarts, b.range.start) - offsetAt(lineStarts, a.range.start));
+    let result = text;
+    for (const edit of sorted) {
+        result = result.slice(0, offsetAt(lineStarts, edit.range.start)) + edit.newText + result.slice(offsetAt(lineStarts, edit.range.end));
+    }
+    return result;
+}
+
+function actionsAt(text: string, line: number, character: number): CodeAction[] {
+    const position = { line, character };
+    return getCodeActions(resolver, documentContext(text), { start: position, end: position });
+}
+
+const source = `from text import slugify, missing
+import json
+
+fun main(request):
+    user = User(request.name)
+    return send_email(user, request.body, len(request.body))
+`;
+
+const analysed = documentContext(source);
+assert.deepEqual(findUnresolvedReferences(analysed).map((reference) => reference.name), ['User', 'send_email']);
+assert.deepEqual(findUnusedImports(analysed).map((unused) => unused.declaration.name), ['slugify', 'missing', 'json']);
+
+// Every module declaring the name is offered; a name that is only imported there is not.
+const imports = actionsAt(source, 4, 12);
+assert.deepEqual(imports.map((action) => [action.title, action.isPreferred]), [
+    ["Import 'User' from 'legacy'", undefined],
+    ["Import 'User' from 'models'", undefined]
+]);
+assert.equal(apply(source, imports[1]).split('\n').slice(0, 3).join('\n'), 'from text import slugify, missing\nimport json\nfrom models import User');
+// A comment trailing the last import stays on its line.
+const commented = source.replace('import json\n', 'import json  # payloads\n');
+assert.equal(
+    apply(commented, actionsAt(commented, 4, 12)[1]).split('\n').slice(0, 3).join('\n'),
+    'from text import slugify, missing\nimport json  # payloads\nfrom models import User'
+);
+
+const created = actionsAt(source, 5, 12);
+assert.deepEqual(created.map((action) => action.title), ["Create function 'send_email'"]);
+assert.equal(
+    apply(source, created[0]),
+    `${source.trimEnd()}\n\nfun send_email(user, body, arg3):\n    return null\n`
+);
+
+// Removing one name keeps the rest of the list; removing the last name of a statement drops its line.
+const removeSlugify = actionsAt(source, 0, 18);
+assert.deepEqual(removeSlugify.map((action) => [action.title, action.isPreferred]), [["Remove unused import 'slugify'", true]]);
+assert.equal(apply(source, removeSlugify[0]).split('\n')[0], 'from text import missing');
+const removeMissing = actionsAt(source, 0, 28).find((action) => action.title.startsWith('Remove'));
+assert.equal(apply(source, removeMissing as CodeAction).split('\n')[0], 'from text import slugify');
+const removeJson = actionsAt(source, 1, 8);
+assert.equal(apply(source, removeJson[0]).split('\n').slice(0, 2).join('\n'), 'from text import slugify, missing\n');
+
+// A name imported into an existing list extends it.
+const extended = actionsAt('from text import other\n\nslugify(1)\n', 2, 2);
+assert.equal(apply('from text import other\n\nslugify(1)\n', extended[0]), 'from text import other, slugify\n\nslugify(1)\n');
+
+// Fixes list the reported diagnostics they resolve.
+const reported = checkNames(analysed);
+const attached = getCodeActions(resolver, analysed, { start: { line: 1, character: 0 }, end: { line: 1, character: 11 } }, '    ', reported);
+assert.deepEqual(attached.map((action) => action.diagnostics?.map((diagnostic) => diagnostic.code)), [['unused-import']]);
@@ -0,0 +1,123 @@
+import { strict as assert } from 'assert';
+import { getMemberCandidates, parseSymbols } from '../symbols';
+import { ModuleResolver } from '../modules';
+import { getMemberCompletions, getScopeCompletions, memberReceiverAt } from '../completion';
+import { documentContext, moduleEntry } from './fixtures';
+
+const repoSource = `class User:
+    fun init(this, name):
+        this.name = name
+        if name:
+            this.tags = []
+
+    fun rename(this, name):
+        this.name = name
+
+class Repo:
+    fun find(this, id):
+        return User(id)
+
+fun make_repo():
+    return Repo()
+
+default_repo = make_repo()
+`;
+const modules = new Map([
+    ['repo', moduleEntry('repo', repoSource)],
+    ['pkg', moduleEntry('pkg', 'VERSION = "1"\n')],
+    ['pkg.tools.text', moduleEntry('pkg.tools.text', 'fun slug(text):\n    return text\n')]
+]);
+const resolver: ModuleResolver = { getModule: (name) => modules.get(name), listModules: () => modules.keys() };
+
+const source = `from repo import Repo, default_repo, make_repo
+
+class Service:
+    fun init(this, repo):
+        this.repo = repo
+
+    fun run(this):
+        user = this.repo.find(1)
+        user.
+        this.
+
+    fun reset():
+        this.
+
+fun helper(r):
+    r.
+
+svc = Service(Repo())
+helper(make_repo())
+default_repo.
+`;
+
+const context = documentContext(source);
+const lines = source.split('\n');
+
+function membersAt(line: number, text = lines[line], target = context): string[] {
+    const receiver = memberReceiverAt(text);
+    assert(receiver, `no receiver in ${text}`);
+    return getMemberCompletions(resolver, target, receiver, line)
+        .map((item) => item.label)
+        .sort();
+}
+
+assert.deepEqual(membersAt(8), ['init', 'name', 'rename', 'tags']);
+assert.deepEqual(membersAt(9), ['init', 'repo', 'reset', 'run']);
+assert.deepEqual(membersAt(12), ['init', 'repo', 'reset', 'run']);
+assert.deepEqual(membersAt(9, '        this.repo.'), ['find']);
+assert.deepEqual(membersAt(15), ['find']);
+assert.deepEqual(membersAt(19), ['find']);
+assert.deepEqual(membersAt(8, '        this.repo.find(1).na'), ['init', 'name', 'rename', 'tags']);
+
+// Module names and aliases list exports and submodules; builtin modules without indexed sources have none.
+const importing = documentContext('import pkg.tools.text\nimport repo as r\nimport math\n');
+assert.deepEqual(membersAt(3, 'pkg.', importing), ['VERSION', 'tools']);
+assert.deepEqual(membersAt(3, 'x = pkg.tools.', importing), ['text']);
+assert.deepEqual(membersAt(3, 'pkg.tools.text.', importing), ['slug']);
+assert.deepEqual(membersAt(3, 'r.', importing), ['Repo', 'User', 'default_repo', 'make_repo']);
+assert.deepEqual(membersAt(3, 'math.', importing), []);
+assert.deepEqual(membersAt(3, 'os.', importing), []);
+
+// Fields come from `this` alone, whether or not the method declares it as its receiver.
+const counterSource = 'class Counter:\n    fun init():\n        this.count = 0\n\n    fun set(value):\n        value.bogus = 1\n        this.\n';
+const counter = documentContext(counterSource);
+assert.deepEqual(membersAt(6, '        this.', counter), ['count', 'init', 'set']);
+assert.deepEqual(Array.from(parseSymbols(counterSource).classFields.get('Counter') ?? []), ['count']);
+
+// Fields name the method that first assigns them; methods show their signature.
+const details = new Map(
+    getMemberCompletions(resolver, context, memberReceiverAt('        user.')!, 8).map((item) => [item.label, item.detail])
+);
+assert.equal(details.get('tags'), 'set in User.init()');
+assert.equal(details.get('rename'), 'fun rename(this, name)');
+
+assert.deepEqual(memberReceiverAt('x = (await load(a, [1])).'), { text: '(await load(a, [1]))', character: 4 });
+assert.equal(memberReceiverAt('print("a.'), null);
+assert.equal(memberReceiverAt('x = 1  # see y.'), null);
+assert.equal(memberReceiverAt('x = 1.'), null);
+// Apostrophes are not string quotes in Able.
+assert.deepEqual(memberReceiverAt('x = "it\'s" + user.'), { text: 'user', character: 13 });
+assert.deepEqual(memberReceiverAt('log(don\'t, repo.'), { text: 'repo', character: 11 });
+assert.deepEqual(memberReceiverAt('(user\'s).'), { text: '(user\'s)', character: 0 });
+
+// General completion ranks nearer scopes first and offers everything else as an auto-import.
+const scoped = documentContext('from repo import Repo\n\nLIMIT = 1\n\nfun handle(request):\n    count = 0\n    ma\n');
+const ranked = getScopeCompletions(resolver, scoped, { line: 6, character: 6 }, 'ma');
+const rank = (label: string) => ranked.items.find((item) => item.label === label)?.sortText?.[0];
+assert.deepEqual(['count', 'request', 'handle', 'LIMIT', 'Repo', 'len', 'make_repo'].map(rank), ['0', '0', '1', '1', '2', '3', '4']);
+assert.equal(rank('User'), undefined);
+assert.equal(rank('slug'), undefined);
+const autoImport = ranked.items.find((item) => item.label === 'make_repo');
+assert.deepEqual(autoImport?.additionalTextEdits, [
+    { range: { start: { line: 0, character: 21 }, end: { line: 0, character: 21 } }, newText: ', make_repo' }
+]);
+const fresh = getScopeCompletions(resolver, documentContext('import math\nsl\n'), { line: 1, character: 2 }, 'sl');
+assert.deepEqual(fresh.items.find((item) => item.label === 'slug')?.additionalTextEdits, [
+    { range: { start: { line: 0, character: 11 }, end: { line: 0, character: 11 } }, newText: '\nfrom pkg.tools.text import slug' }
+]);
+
+// The indexed symbol sets record fields next to methods.
+const indexed = modules.get('repo')!.symbols;
+assert.deepEqual(Array.from(indexed.classFields.get('User') ?? []), ['name', 'tags']);
+assert.deepEqual(getMemberCandidates(indexed, 'User').properties, ['name', 'tags']);
@@ -0,0 +1,97 @@
+import { strict as assert } from 'assert';
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag } from 'vscode-languageserver/node';
+import { ModuleEntry, ModuleResolver } from '../modules';
+import { ImportCheckOptions, checkImports, checkNames } from '../diagnostics';
+import { documentContext, moduleEntry } from './fixtures';
+
+function describe(diagnostics: Diagnostic[]): string[] {
+    return diagnostics.map(
+        (diagnostic) => `${diagnostic.code} ${diagnostic.range.start.line}:${diagnostic.range.start.character} ${diagnostic.message}`
+    );
+}
+
+function summary(text: string, uri?: string): string[] {
+    return describe(checkNames(documentContext(text, 'main', uri)));
+}
+
+const source = `from text import slugify, missing
+import json
+
+LIMIT = 10
+
+fun handle(request, _context):
+    total = 0
+    unused = len(request.items)
+    for item of request.items:
+        total += item.price
+    fun helper():
+        return null
+    return str(totl) + pr(LIMIT)
+
+class Store:
+    fun save(this, key, value):
+        this.items[key] = value
+`;
+
+assert.deepEqual(summary(source), [
+    "undefined-name 12:15 Cannot find name 'totl'",
+    "unused-import 0:17 'slugify' is imported but never used",
+    "unused-import 0:26 'missing' is imported but never used",
+    "unused-import 1:0 'json' is imported but never used",
+    "unused-variable 7:4 'unused' is assigned but never used",
+    "unused-variable 10:8 'helper' is declared but never used"
+]);
+
+const [undefinedName, unusedImport] = checkNames(documentContext(source));
+assert.equal(undefinedName.severity, DiagnosticSeverity.Error);
+assert.equal(undefinedName.tags, undefined);
+assert.equal(unusedImport.severity, DiagnosticSeverity.Warning);
+assert.deepEqual(unusedImport.tags, [DiagnosticTag.Unnecessary]);
+
+// Parameters count as read anywhere in the body, including nested functions; `this` may go unused.
+assert.deepEqual(summary('fun outer(a, b, this):\n    fun inner():\n        return a\n    return inner()\n'), [
+    "unused-parameter 0:13 Parameter 'b' is never used"
+]);
+
+// Methods without a receiver parameter still see `this`; outside a class it is undefined.
+assert.deepEqual(summary('class A:\n    fun m():\n        return this.x\n\nfun f():\n    return this\n'), [
+    "undefined-name 5:11 Cannot find name 'this'"
+]);
+
+// Builtin functions, types, decorators and keyword constants resolve.
+assert.deepEqual(summary('@Get("/")\nfun index():\n    return list(range(3)) + str(true)\n'), []);
+
+// Decorators added with `register_decorator` are not known statically; their arguments still are.
+assert.deepEqual(summary('fun auth(handler):\n    return handler\n\nregister_decorator("Auth", auth)\n\n@Auth(role)\nfun index():\n    return null\n'), [
+    "undefined-name 5:6 Cannot find name 'role'"
+]);
+
+// A package's imports are its exports.
+assert.deepEqual(summary('from models import User\n', 'file:///ws/app/__init__.abl'), []);
+
+const modules = new Map<string, ModuleEntry>([
+    ['models', moduleEntry('models', 'from db import Connection\n\nclass User:\n    return null\n\nLIMIT = 1\n')],
+    ['db', moduleEntry('db', 'class Connection:\n    return null\n')],
+    ['pkg.tools', moduleEntry('pkg.tools', 'fun slug(text):\n    return text\n')]
+]);
+const resolver: ModuleResolver = { getModule: (name) => modules.get(name), listModules: () => modules.keys() };
+const importOptions: ImportCheckOptions = {
+    isBuiltinModule: (name) => name === 'math',
+    hasModulePrefix: (name) => Array.from(modules.keys()).some((moduleName) => moduleName.startsWith(`${name}.`))
+};
+
+function importSummary(text: string): string[] {
+    return describe(checkImports(resolver, documentContext(text), importOptions));
+}
+
+// Builtin modules, package prefixes of indexed modules, exports and re-exported imports all resolve.
+assert.deepEqual(importSummary('import math\nimport pkg\nimport pkg.tools as t\nfrom models import User, LIMIT, Connection\n'), []);
+
+assert.deepEqual(importSummary('import mathx\nfrom pkg.missing import slug\nfrom models import User, Admin\n'), [
+    "unresolved-import 0:7 Cannot resolve module 'mathx'",
+    "unresolved-import 1:5 Cannot resolve module 'pkg.missing'",
+    "unknown-import-name 2:25 Module 'models' has no exported name 'Admin'"
+]);
+
+// Names from a package prefix or a builtin module are not checked against an index entry.
+assert.deepEqual(importSummary('from pkg import anything\nfrom math import anything\n'), []);
@@ -0,0 +1,27 @@
+import { parse } from '../parser';
+import { bindProgram } from '../scope';
+import { collectSymbols } from '../symbols';
+import { ModuleContext, ModuleEntry } from '../modules';
+
+// Dotted module names live in nested folders under `/ws`, as the workspace index would find them.
+export function moduleUri(moduleName: string): string {
+    return `file:///ws/${moduleName.replace(/\./g, '/')}.abl`;
+}
+
+export function moduleEntry(moduleName: string, text: string): ModuleEntry {
+    const parsed = parse(text);
+    return {
+        moduleName,
+        filePath: `/ws/${moduleName.replace(/\./g, '/')}.abl`,
+        uri: moduleUri(moduleName),
+        symbols: collectSymbols(parsed.program),
+        program: parsed.program,
+        comments: parsed.comments
+    };
+}
+
+// The context of an open document, as the server builds it.
+export function documentContext(text: string, moduleName = 'main', uri = moduleUri(moduleName)): ModuleContext {
+    const parsed = parse(text);
+    return { uri, moduleName, program: parsed.program, comments: parsed.comments, binding: bindProgram(parsed.program) };
+}
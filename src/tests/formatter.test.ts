@@ -0,0 +1,150 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TextEdit } from 'vscode-languageserver/node';
+import { computeLineStarts, offsetAt } from '../lexer';
+import { DEFAULT_FORMAT_OPTIONS, FormatOptions, formatDocument, formatOnType, formatRange } from '../formatter';
+import { FORMAT_CONFIG_FILE, findFormatConfig, parseFormatOptions, readFormatConfig, resolveFormatOptions } from '../formatConfig';
+
+function apply(text: string, edits: TextEdit[]): string {
+    const lineStarts = computeLineStarts(text);
+    const sorted = [...edits].sort((a, b) => offsetAt(lineStarts, b.range.start) - offsetAt(lineStarts, a.range.start));
+    let result = text;
+    for (const edit of sorted) {
+        result = result.slice(0, offsetAt(lineStarts, edit.range.start)) + edit.newText + result.slice(offsetAt(lineStarts, edit.range.end));
+    }
+    return result;
+}
+
+function format(text: string, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): string {
+    return apply(text, formatDocument(text, options));
+}
+
+const messy = `
+
+from models import Client,DEFAULTS
+# Settings for the server.
+CONFIG={port:80,"host" :  "{not a block}",
+  routes: [1,2,
+        3
+        ]
+  }
+@Get( "/users" )
+async fun list_users (req,limit=10):
+    ##   keep   this
+       as written ##
+    users=await db.find( {active :true} )
+    if limit>0 and not req.all :
+        users=users[0:limit]
+    elif limit==-1:
+        pr( f"{ a+b } {{x}}" , -limit, 2 ** 3 )   #  odd   spacing
+    else :
+      return [ ]
+
+
+    return users
+class Repo( Base ):
+    fun total(this):
+        return this.count  +  \\
+            1
+x = 1
+
+
+
+y=2`;
+
+const expected = `from models import Client, DEFAULTS
+# Settings for the server.
+CONFIG = {port: 80, "host": "{not a block}",
+    routes: [1, 2,
+        3,
+    ],
+}
+
+@Get("/users")
+async fun list_users(req, limit = 10):
+    ##   keep   this
+       as written ##
+    users = await db.find({active: true})
+    if limit > 0 and not req.all:
+        users = users[0:limit]
+    elif limit == -1:
+        pr(f"{ a+b } {{x}}", -limit, 2 ** 3) #  odd   spacing
+    else:
+        return []
+
+    return users
+
+class Repo(Base):
+    fun total(this):
+        return this.count + \\
+            1
+
+x = 1
+
+y = 2
+`;
+
+assert.equal(format(messy), expected);
+assert.deepEqual(formatDocument(expected), []);
+assert.equal(format('a = 1\r\n\r\n\r\nb = 2'), 'a = 1\r\n\r\nb = 2\r\n');
+
+// Comments directly above a definition stay attached; the blank line goes above them.
+const commented = 'fun a():\n    pass\n# About b.\nfun b():\n    pass\n';
+assert.equal(format(commented), 'fun a():\n    pass\n\n# About b.\nfun b():\n    pass\n');
+assert.equal(format('@Get("/")\n\nfun home():\n    pass\n'), '@Get("/")\nfun home():\n    pass\n');
+
+// Closing brackets line up with the line that opened them.
+assert.equal(format('items = [\n    1,\n    2\n    ]\ncall(\n    items\n        )\n'), 'items = [\n    1,\n    2,\n]\ncall(\n    items\n)\n');
+
+// An operator that starts a continuation line is binary; one after an opener or operator is still unary.
+assert.equal(format('x = (a\n    + b)\n'), 'x = (a\n    + b)\n');
+assert.equal(format('x = 1 \\\n + 2\n'), 'x = 1 \\\n    + 2\n');
+assert.equal(format('x = [a,\n    - b]\n'), 'x = [a,\n    -b]\n');
+
+// Formatting is idempotent.
+for (const sample of [messy, commented, 'x = {\n  a: [\n  1]}\n', 'if a:\n    b()\n\n    # done\nc()\n']) {
+    const once = format(sample);
+    assert.equal(format(once), once);
+}
+
+// Sources the lexer cannot read are left alone.
+assert.deepEqual(formatDocument('x = "unterminated\n'), []);
+assert.deepEqual(formatDocument('x = (1,\n'), []);
+
+// Only the selected lines change.
+const partial = apply('x=1\ny=2\nz=3\n', formatRange('x=1\ny=2\nz=3\n', { start: { line: 1, character: 0 }, end: { line: 2, character: 0 } }));
+assert.equal(partial, 'x=1\ny = 2\nz=3\n');
+
+const typedElse = 'if a:\n    b()\n    else:';
+assert.equal(apply(typedElse, formatOnType(typedElse, { line: 2, character: 9 }, ':')), 'if a:\n    b()\nelse:');
+const typedBrace = 'x = {\n    a: 1,\n    }';
+assert.equal(apply(typedBrace, formatOnType(typedBrace, { line: 2, character: 5 }, '}')), 'x = {\n    a: 1,\n}');
+assert.deepEqual(formatOnType('x = {a: 1}', { line: 0, character: 7 }, ':'), []);
+const typedFor = 'fun a(x):\n  for i of x:';
+assert.equal(apply(typedFor, formatOnType(typedFor, { line: 1, character: 12 }, ':')), 'fun a(x):\n    for i of x:');
+const typedFun = 'class A:\n\tfun b(this):';
+assert.equal(apply(typedFun, formatOnType(typedFun, { line: 1, character: 13 }, ':')), 'class A:\n    fun b(this):');
+assert.deepEqual(formatOnType('if a:', { line: 0, character: 5 }, ':'), []);
+
+// Options change indentation, blank lines and wrapping.
+const options = { ...DEFAULT_FORMAT_OPTIONS, indentSize: 2, blankLinesAroundDefinitions: 2, maxBlankLines: 0 };
+assert.equal(format('x = 1\n\ny = 2\nfun a():\n    return [\n        1\n    ]\n', options), 'x = 1\ny = 2\n\n\nfun a():\n  return [\n    1,\n  ]\n');
+assert.equal(format('if a:\n    b()\n', { ...DEFAULT_FORMAT_OPTIONS, useTabs: true }), 'if a:\n\tb()\n');
+
+const narrow = { ...DEFAULT_FORMAT_OPTIONS, maxLineWidth: 30 };
+const wrapped = format('result = compute(first_value, [1, 2], second) # why\nok = f(a)\n', narrow);
+assert.equal(wrapped, 'result = compute(\n    first_value,\n    [1, 2],\n    second\n) # why\nok = f(a)\n');
+assert.equal(format(wrapped, narrow), wrapped);
+assert.equal(format('x = {name: "server", hosts: ["a", "b"]}\n', narrow), 'x = {\n    name: "server",\n    hosts: ["a", "b"],\n}\n');
+
+// Config files are found from any folder below them and only valid options are kept.
+assert.deepEqual(parseFormatOptions({ indentSize: 0, useTabs: true, maxLineWidth: 80, extra: 1 }), { useTabs: true, maxLineWidth: 80 });
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ablefmt-'));
+fs.mkdirSync(path.join(root, 'pkg', 'src'), { recursive: true });
+fs.writeFileSync(path.join(root, FORMAT_CONFIG_FILE), '{"indentSize": 2}');
+const configPath = findFormatConfig(path.join(root, 'pkg', 'src'));
+assert.equal(configPath, path.join(root, FORMAT_CONFIG_FILE));
+assert.equal(resolveFormatOptions({ indentSize: 8, useTabs: true }, readFormatConfig(configPath!)).indentSize, 2);
+fs.rmSync(root, { recursive: true, force: true });
@@ -0,0 +1,51 @@
+import { strict as assert } from 'assert';
+import { ModuleEntry, ModuleResolver } from '../modules';
+import { getHover } from '../hover';
+import { documentContext, moduleEntry } from './fixtures';
+
+const modules = new Map<string, ModuleEntry>([
+    ['text', moduleEntry('text', '# Turns a title into a URL path segment.\n# Keeps ASCII letters only.\nfun slugify(title, sep = "-"):\n    return title\n')]
+]);
+const resolver: ModuleResolver = { getModule: (name) => modules.get(name) };
+
+const source = `from text import slugify
+
+fun page(title):
+    slug = slugify(title)
+    return len(slug)
+`;
+const context = documentContext(source);
+
+function hoverAt(line: number, character: number): string | null {
+    return getHover(resolver, context, { line, character })?.contents.value ?? null;
+}
+
+assert.equal(hoverAt(3, 5), '```able\n(variable) slug = slugify(title)\n```\n\n*Defined in* `main`');
+assert.equal(hoverAt(2, 10), '```able\n(parameter) title\n```\n\n*Defined in* `main`');
+
+// An imported function shows its own module's signature and doc comment.
+assert.equal(
+    hoverAt(3, 13),
+    '```able\nfun slugify(title, sep = "-")\n```\n\nTurns a title into a URL path segment.\nKeeps ASCII letters only.\n\n*Defined in* `text`'
+);
+assert.deepEqual(getHover(resolver, context, { line: 3, character: 13 })?.range, {
+    start: { line: 3, character: 11 },
+    end: { line: 3, character: 18 }
+});
+
+assert.equal(
+    hoverAt(4, 12),
+    '```able\nlen(value) -> Number\n```\n\nReturns the number of characters in a string, items in a list or keys in an object.\n\n*Builtin function*'
+);
+
+// Keywords, punctuation and blank space have nothing to show.
+assert.equal(hoverAt(4, 6), null);
+assert.equal(hoverAt(3, 9), null);
+assert.equal(hoverAt(1, 0), null);
+
+// Default values keep the parentheses their meaning depends on.
+const defaults = documentContext('fun f(x = a - (b - c), y = -(a + b), z = (2 ** 3) ** 2, w = (-2) ** 2, v = 2 ** -1, u = (not a) == b, t = a - b + c):\n    return x\n');
+assert.equal(
+    getHover(resolver, defaults, { line: 0, character: 4 })?.contents.value,
+    '```able\nfun f(x = a - (b - c), y = -(a + b), z = (2 ** 3) ** 2, w = (-2) ** 2, v = 2 ** -1, u = (not a) == b, t = a - b + c)\n```\n\n*Defined in* `main`'
+);
@@ -0,0 +1,31 @@
+import { strict as assert } from 'assert';
+import { DEFAULT_INDEX_EXCLUDE, createPathFilter, globToRegExp, parseIgnoreFile } from '../indexFilter';
+
+assert(globToRegExp('**/out').test('out'));
+assert(globToRegExp('**/out').test('pkg/out'));
+assert(!globToRegExp('src/*.abl').test('src/pkg/a.abl'));
+assert(globToRegExp('src/**/*.abl').test('src/a.abl'));
+assert(globToRegExp('src/**/*.abl').test('src/pkg/a.abl'));
+assert(globToRegExp('{app,lib}/?.abl').test('lib/a.abl'));
+assert(!globToRegExp('{app,lib}/?.abl').test('lib/ab.abl'));
+assert(!globToRegExp('*.abl').test('a.able'));
+
+// Exclusions cover everything inside the matching folder.
+const defaults = createPathFilter({ include: [], exclude: DEFAULT_INDEX_EXCLUDE });
+assert(defaults('app.abl', false));
+assert(!defaults('.git', true));
+assert(!defaults('pkg/node_modules/dep/x.abl', false));
+
+const included = createPathFilter({ include: ['src/**/*.abl'], exclude: [] });
+assert(included('src/app.abl', false));
+assert(!included('scripts/tool.abl', false));
+assert(included('scripts', true));
+
+const rules = parseIgnoreFile('# fixtures\n\nfixtures/\n/build.abl\n*.gen.abl\n!keep.gen.abl\n');
+const ignoring = createPathFilter({ include: [], exclude: [] }, rules);
+assert(!ignoring('fixtures/a.abl', false));
+assert(!ignoring('tests/fixtures/a.abl', false));
+assert(!ignoring('build.abl', false));
+assert(ignoring('pkg/build.abl', false));
+assert(!ignoring('pkg/model.gen.abl', false));
+assert(ignoring('pkg/keep.gen.abl', false));
@@ -0,0 +1,34 @@
+import { strict as assert } from 'assert';
+import { ModuleEntry, ModuleResolver } from '../modules';
+import { findDefinition } from '../navigation';
+import { documentContext, moduleEntry } from './fixtures';
+
+const modules = new Map<string, ModuleEntry>([
+    ['utils.http', moduleEntry('utils.http', 'fun get(url):\n    return url\n\nclass Client:\n    fun send(this, req):\n        return req\n')],
+    ['models', moduleEntry('models', 'from utils.http import Client\n\nDEFAULTS = {\n    retries: 3,\n}\n')]
+]);
+const resolver: ModuleResolver = { getModule: (name) => modules.get(name) };
+
+const source = `import utils.http as h
+from models import Client, DEFAULTS
+
+fun main():
+    client = Client()
+    client.send(h.get("/"))
+    return DEFAULTS.retries
+`;
+const context = documentContext(source);
+
+function definitionAt(line: number, character: number): string[] {
+    return findDefinition(resolver, context, { line, character }).map(
+        (location) => `${location.uri}:${location.range.start.line}:${location.range.start.character}`
+    );
+}
+
+assert.deepEqual(definitionAt(0, 14), ['file:///ws/utils/http.abl:0:0']);
+assert.deepEqual(definitionAt(4, 15), ['file:///ws/utils/http.abl:3:6']);
+assert.deepEqual(definitionAt(5, 12), ['file:///ws/utils/http.abl:4:8']);
+assert.deepEqual(definitionAt(5, 19), ['file:///ws/utils/http.abl:0:4']);
+assert.deepEqual(definitionAt(6, 22), ['file:///ws/models.abl:3:4']);
+assert.deepEqual(definitionAt(5, 5), ['file:///ws/main.abl:4:4']);
+assert.deepEqual(definitionAt(1, 28), ['file:///ws/models.abl:2:0']);
@@ -0,0 +1,75 @@
+import { strict as assert } from 'assert';
+import { TextEdit } from 'vscode-languageserver/node';
+import { computeLineStarts, offsetAt } from '../lexer';
+import { ModuleContext } from '../modules';
+import { ImportGroup, organizeImports } from '../organizeImports';
+import { documentContext } from './fixtures';
+
+const GROUPS: Record<string, ImportGroup> = { math: 'builtin', time: 'builtin', http: 'library', 'http.client': 'library' };
+const options = { groupOf: (module: string) => GROUPS[module] ?? 'workspace' };
+
+function context(text: string, uri?: string): ModuleContext {
+    return documentContext(text, 'routes', uri);
+}
+
+function organize(text: string, uri?: string): string {
+    const lineStarts = computeLineStarts(text);
+    let result = text;
+    for (const edit of organizeImports(context(text, uri), text, options) as TextEdit[]) {
+        result = result.slice(0, offsetAt(lineStarts, edit.range.start)) + edit.newText + result.slice(offsetAt(lineStarts, edit.range.end));
+    }
+    return result;
+}
+
+const source = `# Routes for the shop.
+
+# Persistence
+from models import User, Order
+import http.client as client  # vendored
+from util import slugify
+import math
+from models import Cart, User as Account
+from util import unused, clamp
+import time
+
+fun index(request):
+    return client.get(slugify(User.name), Order, Cart, Account, clamp(math.pi))
+`;
+
+const organized = `# Routes for the shop.
+
+import math
+
+import http.client as client # vendored
+
+# Persistence
+from models import Cart, Order, User, User as Account
+from util import clamp, slugify
+
+fun index(request):
+    return client.get(slugify(User.name), Order, Cart, Account, clamp(math.pi))
+`;
+
+assert.equal(organize(source), organized);
+// Running it again changes nothing, so it is safe on save.
+assert.deepEqual(organizeImports(context(organized), organized, options), []);
+
+// Comments directly above the first import move with it; repeated trailing comments move above the merged line.
+// Trailing comments are spaced like the formatter spaces them.
+assert.equal(
+    organize('# util first\nfrom util import b  # one\nfrom util import a  # two\n\nb(a)\n'),
+    '# util first\n# two\nfrom util import a, b # one\n\nb(a)\n'
+);
+
+// Parenthesized lists are rewritten on one line.
+assert.equal(organize('from util import (\n    b,\n    a,\n)\n\na(b)\n'), 'from util import a, b\n\na(b)\n');
+
+// A package keeps the imports it re-exports.
+assert.equal(organize('from util import b\nfrom util import a\n', 'file:///ws/pkg/__init__.abl'), 'from util import a, b\n');
+
+// While the rest of the document does not parse, imports that look unused may not be.
+const halfTyped = 'from util import b, a\n\nx = [a,\ny = b\n';
+assert.deepEqual(organizeImports(context(halfTyped), halfTyped, options), []);
+
+// A line in the block that did not parse as an import is left alone, along with the block.
+assert.deepEqual(organizeImports(context('from b import x\nimport\nfrom a import y\n\nx(y)\n'), 'from b import x\nimport\nfrom a import y\n\nx(y)\n', options), []);
@@ -0,0 +1,52 @@
+import { strict as assert } from 'assert';
+import { DocumentSymbol, SymbolKind } from 'vscode-languageserver/node';
+import { getDocumentSymbols } from '../outline';
+import { documentContext } from './fixtures';
+
+const source = `import db
+
+CONFIG = {
+    retries: 3,
+    server: {
+        port: 8080,
+    },
+}
+limit = 10
+
+class User:
+    table = "users"
+
+    fun save(this, force):
+        count = 1
+        return db.write(this)
+
+fun main():
+    local = 1
+    fun helper():
+        return local
+    return helper()
+`;
+
+function outline(symbols: DocumentSymbol[]): unknown[] {
+    return symbols.map((symbol) => [
+        symbol.name,
+        symbol.kind,
+        ...(symbol.detail ? [symbol.detail] : []),
+        ...(symbol.children && symbol.children.length > 0 ? [outline(symbol.children)] : [])
+    ]);
+}
+
+const symbols = getDocumentSymbols(documentContext(source));
+
+// Imports and function locals stay out of the outline; nested functions and object keys nest under their owner.
+assert.deepEqual(outline(symbols), [
+    ['CONFIG', SymbolKind.Object, [['retries', SymbolKind.Property], ['server', SymbolKind.Property, [['port', SymbolKind.Property]]]]],
+    ['limit', SymbolKind.Variable],
+    ['User', SymbolKind.Class, [['table', SymbolKind.Field], ['save', SymbolKind.Method, '(this, force)']]],
+    ['main', SymbolKind.Function, '()', [['helper', SymbolKind.Function, '()']]]
+]);
+
+const user = symbols[2];
+assert.deepEqual(user.selectionRange, { start: { line: 10, character: 6 }, end: { line: 10, character: 10 } });
+assert.equal(user.range.start.line, 10);
+assert.equal(user.range.end.line, 15);
@@ -0,0 +1,87 @@
+import { strict as assert } from 'assert';
+import { FunctionDeclaration, ClassDeclaration, Assignment } from '../ast';
+import { parse } from '../parser';
+
+const sample = `
+from utils.http import get, post
+import math as m
+
+## Users are stored
+   in memory ##
+@Get("/users")
+async fun list_users(req, limit = 10):
+    fun inner(x):
+        return x * 2
+    return [inner(limit), f"{req.path} {{ok}}"]
+
+class User(Base):
+    fun name(this):
+        if this.first:
+            return this.first
+        elif not this.last:
+            return "?"
+        else:
+            return null
+
+config = {
+    host: "localhost",
+    "port": 8080,
+}
+`;
+
+const result = parse(sample);
+assert.deepEqual(result.errors, []);
+
+const [fromImport, importStmt, fn, cls, config] = result.program.body;
+assert.equal(fromImport.kind, 'FromImport');
+assert.equal(importStmt.kind, 'Import');
+
+const listUsers = fn as FunctionDeclaration;
+assert.equal(listUsers.name.name, 'list_users');
+assert.equal(listUsers.isAsync, true);
+assert.deepEqual(listUsers.params.map((param) => param.name.name), ['req', 'limit']);
+assert.equal(listUsers.decorators[0].name.name, 'Get');
+assert.deepEqual(listUsers.name.range, { start: { line: 7, character: 10 }, end: { line: 7, character: 20 } });
+assert.equal((listUsers.body[0] as FunctionDeclaration).name.name, 'inner');
+
+const user = cls as ClassDeclaration;
+assert.equal(user.name.name, 'User');
+assert.equal(user.body.length, 1);
+assert.equal(user.range.end.line, 19);
+
+const configAssign = config as Assignment;
+assert.equal(configAssign.value.kind, 'Object');
+assert.equal(result.comments.length, 1);
+assert.equal(result.comments[0].block, true);
+
+const broken = parse(`
+fun half(a, b
+    return a
+
+if ready
+    go()
+
+items = [1, 2
+
+fun after():
+    return "still parsed"
+`);
+const brokenNames = broken.program.body
+    .filter((statement): statement is FunctionDeclaration => statement.kind === 'Function')
+    .map((statement) => statement.name.name);
+assert.deepEqual(brokenNames, ['half', 'after']);
+assert(broken.errors.some((error) => error.message === "Expected ':' after 'if'"));
+assert(broken.errors.some((error) => error.message === "Unclosed '['" && error.range.start.line === 7));
+assert(broken.errors.some((error) => error.message === "Unclosed '('" && error.range.start.line === 1));
+
+const unterminated = parse('name = "abc\nnext = 1\n');
+assert.equal(unterminated.errors[0].message, 'Unterminated string');
+assert.equal(unterminated.program.body.length, 2);
+
+const structural = parse('class Box\n    fun open(this)\n        return 1\n  \t x = 2\nfun close():\n\treturn ##never closed\n');
+const messages = structural.errors.map((error) => `${error.range.start.line}:${error.message}`);
+assert(messages.includes("0:Expected ':' after class 'Box'"));
+assert(messages.includes("1:Expected ':' after function 'open'"));
+assert(messages.includes('3:Indentation mixes tabs and spaces'));
+assert(messages.includes('5:Indentation uses tabs but earlier lines use spaces'));
+assert(messages.includes("5:Unterminated block comment: missing closing '##'"));
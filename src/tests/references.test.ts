@@ -0,0 +1,32 @@
+import { strict as assert } from 'assert';
+import { ModuleEntry, ModuleResolver, contextForEntry } from '../modules';
+import { findReferences, prepareRename, renameSymbol } from '../references';
+import { moduleEntry } from './fixtures';
+
+const modules = new Map<string, ModuleEntry>([
+    ['models', moduleEntry('models', 'class User:\n    fun save(this):\n        return this\n\n# User is documented here\nadmin = User()\n')],
+    ['routes', moduleEntry('routes', 'from models import User, admin\n\nfun handler():\n    u = User()\n    u.save()\n    return "User"\n')],
+    ['legacy', moduleEntry('legacy', 'from models import User as Account\n\nuser = Account()\n')]
+]);
+const resolver: ModuleResolver = { getModule: (name) => modules.get(name) };
+const contexts = Array.from(modules.values()).map(contextForEntry);
+const models = contextForEntry(modules.get('models') as ModuleEntry);
+const legacy = contextForEntry(modules.get('legacy') as ModuleEntry);
+
+const references = findReferences(resolver, models, { line: 0, character: 7 }, contexts, true);
+assert.deepEqual(
+    references.map((location) => `${location.uri.slice(11)}:${location.range.start.line}:${location.range.start.character}`).sort(),
+    ['legacy.abl:0:19', 'legacy.abl:2:7', 'models.abl:0:6', 'models.abl:5:8', 'routes.abl:0:19', 'routes.abl:3:8']
+);
+
+const changes = renameSymbol(resolver, models, { line: 0, character: 7 }, 'Member', contexts);
+assert(changes);
+assert.equal(changes['file:///ws/models.abl'].length, 2);
+assert.equal(changes['file:///ws/routes.abl'].length, 2);
+assert.deepEqual(changes['file:///ws/legacy.abl'].map((edit) => edit.range.start), [{ line: 0, character: 19 }]);
+
+const methodReferences = findReferences(resolver, models, { line: 1, character: 9 }, contexts, false);
+assert.deepEqual(methodReferences.map((location) => location.uri), ['file:///ws/routes.abl']);
+
+assert.equal(prepareRename(resolver, legacy, { line: 2, character: 9 }), null);
+assert.equal(prepareRename(resolver, models, { line: 4, character: 3 }), null);
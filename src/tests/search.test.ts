@@ -0,0 +1,27 @@
+import { strict as assert } from 'assert';
+import { fuzzyScore, searchWorkspaceSymbols } from '../search';
+import { moduleEntry } from './fixtures';
+
+const entries = [
+    moduleEntry('models.user', 'import db\n\nclass UserRepository:\n    fun find_by_id(this, id):\n        return id\n\nfun user_count():\n    return 0\n'),
+    moduleEntry('api.routes', 'ROUTES = {}\n\nfun register_user(req):\n    return req\n')
+];
+
+assert.equal(fuzzyScore('xyz', 'UserRepository'), null);
+assert.ok(fuzzyScore('UR', 'UserRepository')! > fuzzyScore('UR', 'register_user')!);
+assert.ok(fuzzyScore('user', 'user_count')! > fuzzyScore('user', 'register_user')!);
+
+const repo = searchWorkspaceSymbols(entries, 'usrepo');
+assert.equal(repo.length, 1);
+assert.equal(repo[0].name, 'UserRepository');
+assert.equal(repo[0].containerName, 'models.user');
+assert.equal(repo[0].location.uri, 'file:///ws/models/user.abl');
+assert.deepEqual(repo[0].location.range.start, { line: 2, character: 6 });
+
+const method = searchWorkspaceSymbols(entries, 'findid');
+assert.equal(method[0].name, 'find_by_id');
+assert.equal(method[0].containerName, 'models.user.UserRepository');
+
+const users = searchWorkspaceSymbols(entries, 'user').map((symbol) => symbol.name);
+assert.deepEqual(users, ['user_count', 'UserRepository', 'register_user']);
+assert.ok(!searchWorkspaceSymbols(entries, '').some((symbol) => symbol.name === 'db'));
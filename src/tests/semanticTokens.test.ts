@@ -0,0 +1,49 @@
+import { strict as assert } from 'assert';
+import { ModuleResolver } from '../modules';
+import { SEMANTIC_TOKENS_LEGEND, collectSemanticTokens, createSemanticTokensCache } from '../semanticTokens';
+import { documentContext, moduleEntry } from './fixtures';
+
+const modules = new Map([['models', moduleEntry('models', 'class User:\n    fun save(this):\n        pass\n')]]);
+const resolver: ModuleResolver = { getModule: (name) => modules.get(name) };
+
+const source = `from models import User as U, Missing
+@Get("/users")
+@audit
+fun handler(req):
+    user = U()
+    user.save()
+    return len(req)
+`;
+const tokens = collectSemanticTokens(resolver, documentContext(source));
+
+const lines = source.split('\n');
+const described = tokens.map((token) => {
+    const modifiers = SEMANTIC_TOKENS_LEGEND.tokenModifiers.filter((_modifier, index) => token.tokenModifiers & (1 << index));
+    const text = lines[token.line].slice(token.character, token.character + token.length);
+    return [text, SEMANTIC_TOKENS_LEGEND.tokenTypes[token.tokenType], ...modifiers].join(' ');
+});
+
+assert.deepEqual(described, [
+    'models namespace',
+    'User class',
+    'U class declaration',
+    'Get decorator defaultLibrary',
+    'audit decorator',
+    'handler function declaration',
+    'req parameter declaration',
+    'user variable declaration local',
+    'U class',
+    'user variable local',
+    'save method',
+    'len function defaultLibrary',
+    'req parameter'
+]);
+
+// Repeated full requests for a document return the same data, and a delta against the last one is empty.
+const cache = createSemanticTokensCache();
+const first = cache.full('file:///ws/main.abl', tokens);
+const second = cache.full('file:///ws/main.abl', tokens);
+assert.equal(first.data.length, tokens.length * 5);
+assert.deepEqual(second.data, first.data);
+const delta = cache.delta('file:///ws/main.abl', second.resultId as string, tokens);
+assert.deepEqual('edits' in delta ? delta.edits : delta.data, []);
@@ -0,0 +1,39 @@
+import { strict as assert } from 'assert';
+import { tokenize } from '../lexer';
+import { ModuleResolver } from '../modules';
+import { getSignatureHelp } from '../signatures';
+import { documentContext } from './fixtures';
+
+const resolver: ModuleResolver = { getModule: () => undefined };
+
+const source = `fun connect(host, port, timeout = 30):
+    return host
+
+connect("db", 5432, len(name), 1)
+missing(1, 2)
+`;
+const context = documentContext(source);
+const { tokens } = tokenize(source);
+
+function helpAt(line: number, character: number): [string, string] | null {
+    const help = getSignatureHelp(resolver, context, tokens, { line, character });
+    if (!help) {
+        return null;
+    }
+    const signature = help.signatures[help.activeSignature];
+    const [start, end] = signature.parameters[help.activeParameter]?.label ?? [0, 0];
+    return [signature.label, signature.label.slice(start, end)];
+}
+
+// The active parameter follows the commas typed so far.
+assert.deepEqual(helpAt(3, 8), ['fun connect(host, port, timeout = 30)', 'host']);
+assert.deepEqual(helpAt(3, 13), ['fun connect(host, port, timeout = 30)', 'port']);
+assert.deepEqual(getSignatureHelp(resolver, context, tokens, { line: 3, character: 19 })?.activeParameter, 2);
+
+// Inside a nested call the innermost callee wins, and the outer call picks up again after it closes.
+assert.deepEqual(helpAt(3, 24), ['len(value) -> Number', 'value']);
+assert.deepEqual(helpAt(3, 29), ['fun connect(host, port, timeout = 30)', 'timeout = 30']);
+
+// A callee that resolves to nothing has no signature.
+assert.equal(getSignatureHelp(resolver, context, tokens, { line: 4, character: 8 }), null);
+assert.equal(getSignatureHelp(resolver, context, tokens, { line: 1, character: 4 }), null);
@@ -0,0 +1,45 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_FOLDER_SETTINGS, folderForPath, parseFolderSettings, resolveSettingPath, searchRootsFor } from '../workspaceFolders';
+
+const settings = parseFolderSettings({
+    stdlibPaths: ['vendor/able', 42],
+    useEnvAblePath: false,
+    index: { cache: true, maxFiles: 50, exclude: ['**/gen'] },
+    format: { indentSize: 2 }
+});
+assert.deepEqual(settings.stdlibPaths, ['vendor/able']);
+assert.equal(settings.useEnvAblePath, false);
+assert.equal(settings.indexCache, true);
+assert.equal(settings.index.maxFiles, 50);
+assert.deepEqual(settings.index.exclude, ['**/gen']);
+assert.equal(settings.format.indentSize, 2);
+assert.equal(parseFolderSettings(undefined), DEFAULT_FOLDER_SETTINGS);
+
+const base = fs.mkdtempSync(path.join(os.tmpdir(), 'able-folders-'));
+const service = path.join(base, 'service');
+const shared = path.join(base, 'shared');
+fs.mkdirSync(path.join(service, 'lib'), { recursive: true });
+fs.mkdirSync(path.join(service, 'vendor', 'able'), { recursive: true });
+fs.mkdirSync(shared);
+
+assert.equal(resolveSettingPath('vendor/able', service), path.join(service, 'vendor', 'able'));
+assert.equal(resolveSettingPath('/opt/able', service), path.resolve('/opt/able'));
+
+// Each folder gets its own `lib` and resolves relative library paths against itself.
+assert.deepEqual(searchRootsFor(service, settings), [
+    { path: service, kind: 'workspace' },
+    { path: path.join(service, 'lib'), kind: 'workspace' },
+    { path: path.join(service, 'vendor', 'able'), kind: 'library' }
+]);
+assert.deepEqual(searchRootsFor(shared, settings), [{ path: shared, kind: 'workspace' }]);
+assert.deepEqual(searchRootsFor(null, settings, service), [{ path: path.join(service, 'vendor', 'able'), kind: 'library' }]);
+
+const nested = path.join(service, 'tools');
+assert.equal(folderForPath([service, shared, nested], path.join(nested, 'cli.abl')), nested);
+assert.equal(folderForPath([service, shared, nested], path.join(service, 'app.abl')), service);
+assert.equal(folderForPath([service, shared], path.join(base, 'loose.abl')), null);
+
+fs.rmSync(base, { recursive: true, force: true });
@@ -0,0 +1,196 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ParseResult, parse } from '../parser';
+import { checkModuleResolution } from '../diagnostics';
+import {
+    DEFAULT_INDEX_SETTINGS,
+    SearchRoot,
+    createModuleIndex,
+    describeModuleResolution,
+    moduleImports,
+    moduleNameForFile
+} from '../workspaceIndex';
+
+const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'able-index-'));
+const lib = fs.mkdtempSync(path.join(os.tmpdir(), 'able-index-lib-'));
+const storage = fs.mkdtempSync(path.join(os.tmpdir(), 'able-index-cache-'));
+const roots: SearchRoot[] = [
+    { path: workspace, kind: 'workspace' },
+    { path: lib, kind: 'library' }
+];
+
+function write(filePath: string, text: string): string {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, text);
+    return filePath;
+}
+
+function exportsOf(index: ReturnType<typeof createModuleIndex>, moduleName: string): string[] {
+    return Array.from(index.getModule(moduleName)?.symbols.functions ?? []);
+}
+
+assert.equal(moduleNameForFile([workspace], path.join(workspace, 'pkg', '__init__.abl')), 'pkg');
+assert.equal(moduleNameForFile([workspace], path.join(os.tmpdir(), 'elsewhere.abl')), null);
+assert.deepEqual(Array.from(moduleImports(parse('import a.b\nfrom c import d\n').program)), ['a.b', 'c', 'c.d']);
+
+const util = write(path.join(workspace, 'util.abl'), 'fun helper():\n    return 1\n');
+const app = write(path.join(workspace, 'app.abl'), 'from util import helper\n');
+write(path.join(workspace, 'main.abl'), 'import app\n');
+write(path.join(workspace, 'other.abl'), 'fun unrelated():\n    return 2\n');
+const libUtil = write(path.join(lib, 'util.abl'), 'fun shadowed():\n    return 3\n');
+write(path.join(workspace, 'out', 'built.abl'), 'fun ignored():\n    return 4\n');
+write(path.join(workspace, 'fixtures', 'sample.abl'), 'fun fixture():\n    return 7\n');
+write(path.join(workspace, '.ableignore'), 'fixtures/\n');
+
+const open = new Map<string, ParseResult>();
+const warnings: string[] = [];
+const index = createModuleIndex({ openDocument: (filePath) => open.get(filePath), warn: (message) => warnings.push(message) });
+index.setRoots(roots);
+index.setCacheFile(path.join(storage, 'module-index.json'));
+
+async function run(): Promise<void> {
+    // A rebuild superseded by a newer one reports that it was dropped.
+    const reported: number[] = [];
+    const [first, second] = await Promise.all([index.rebuild(), index.rebuild((done) => reported.push(done))]);
+    assert.equal(first, false);
+    assert.equal(second, true);
+    assert(index.ready);
+    assert.deepEqual(reported, [1, 2, 3, 4, 5]);
+    assert(!index.limited);
+    assert.deepEqual(Array.from(index.listModules()).sort(), ['app', 'main', 'other', 'util']);
+    assert.equal(index.getModule('util')?.filePath, util);
+    assert.deepEqual(index.candidates('util'), [
+        { filePath: util, root: roots[0] },
+        { filePath: libUtil, root: roots[1] }
+    ]);
+    assert.deepEqual(checkModuleResolution(index, util).map((diagnostic) => diagnostic.message), [
+        `Module 'util' shadows the library module at ${libUtil}`
+    ]);
+    assert.equal(checkModuleResolution(index, libUtil)[0].code, 'shadowed-module');
+    assert.deepEqual(Array.from(index.dependents('util')).sort(), ['app', 'main']);
+
+    // Only the changed module and the modules importing it are affected, and the cache is left for the next rebuild.
+    const saved = fs.readFileSync(path.join(storage, 'module-index.json'), 'utf8');
+    write(util, 'fun helper():\n    return 1\n\nfun extra():\n    return 5\n');
+    const changed = await index.applyChanges([{ filePath: util, type: 'changed' }]);
+    assert.deepEqual(Array.from(changed).sort(), ['app', 'main', 'util']);
+    assert.deepEqual(exportsOf(index, 'util'), ['helper', 'extra']);
+    assert.equal(fs.readFileSync(path.join(storage, 'module-index.json'), 'utf8'), saved);
+
+    const created = write(path.join(workspace, 'pkg', 'tools.abl'), 'import other\n');
+    assert.deepEqual(Array.from(await index.applyChanges([{ filePath: created, type: 'created' }])), ['pkg.tools']);
+    assert.deepEqual(Array.from(index.dependents('other')), ['pkg.tools']);
+
+    fs.rmSync(path.join(workspace, 'pkg'), { recursive: true });
+    assert.deepEqual(Array.from(await index.applyChanges([{ filePath: path.join(workspace, 'pkg'), type: 'deleted' }])), ['pkg.tools']);
+    assert.equal(index.getModule('pkg.tools'), undefined);
+    assert.equal(index.dependents('other').size, 0);
+
+    // Files under ignored folders stay out of the index when the watcher reports them.
+    const fixture = write(path.join(workspace, 'fixtures', 'extra.abl'), 'fun fixture():\n    return 8\n');
+    assert.equal((await index.applyChanges([{ filePath: fixture, type: 'created' }])).size, 0);
+    assert.equal(index.getModule('fixtures.extra'), undefined);
+
+    // Deleting the workspace module uncovers the one it shadowed on the library path.
+    fs.rmSync(util);
+    await index.applyChanges([{ filePath: util, type: 'deleted' }]);
+    assert.equal(index.getModule('util')?.filePath, libUtil);
+    assert.deepEqual(exportsOf(index, 'util'), ['shadowed']);
+
+    // Open documents take precedence over the file on disk.
+    open.set(app, parse('fun draft():\n    return 6\n'));
+    assert.deepEqual(Array.from(index.updateDocument(app, open.get(app) as ParseResult)).sort(), ['app', 'main']);
+    assert.deepEqual(exportsOf(index, 'app'), ['draft']);
+    assert.equal(index.dependents('util').size, 0);
+    open.delete(app);
+    await index.applyChanges([{ filePath: app, type: 'changed' }]);
+    assert.deepEqual(Array.from(index.dependents('util')).sort(), ['app', 'main']);
+
+    // A cold start reuses cached parses for files whose size and mtime are unchanged.
+    const cache = JSON.parse(fs.readFileSync(path.join(storage, 'module-index.json'), 'utf8'));
+    cache.files[path.join(workspace, 'other.abl')].program.body = [];
+    fs.writeFileSync(path.join(storage, 'module-index.json'), JSON.stringify(cache));
+    const restarted = createModuleIndex({ openDocument: () => undefined, warn: (message) => warnings.push(message) });
+    restarted.setRoots(roots);
+    restarted.setCacheFile(path.join(storage, 'module-index.json'));
+    assert(await restarted.rebuild());
+    assert.deepEqual(exportsOf(restarted, 'other'), []);
+    assert.deepEqual(exportsOf(restarted, 'util'), ['shadowed']);
+
+    const limited = createModuleIndex({ openDocument: () => undefined, warn: (message) => warnings.push(message) });
+    limited.setRoots(roots.slice(0, 1));
+    limited.setSettings({ ...DEFAULT_INDEX_SETTINGS, maxFiles: 2 });
+    assert(await limited.rebuild());
+    assert(limited.limited);
+    assert.equal(Array.from(limited.listModules()).length, 2);
+    assert.match(warnings.pop() as string, /able\.index\.maxFiles/);
+
+    // A file under a nested root can be imported by a name from each root; packages win over files in the same root.
+    const project = path.join(workspace, 'project');
+    const nested = createModuleIndex({ openDocument: () => undefined, warn: (message) => warnings.push(message) });
+    nested.setRoots([
+        { path: project, kind: 'workspace' },
+        { path: path.join(project, 'lib'), kind: 'workspace' }
+    ]);
+    const http = write(path.join(project, 'http.abl'), 'fun get():\n    return 1\n');
+    const libHttp = write(path.join(project, 'lib', 'http.abl'), 'fun post():\n    return 2\n');
+    const pkgFile = write(path.join(project, 'pkg.abl'), '');
+    const pkgInit = write(path.join(project, 'pkg', '__init__.abl'), '');
+    assert(await nested.rebuild());
+    assert.deepEqual(nested.moduleNamesForFile(libHttp), ['lib.http', 'http']);
+    assert.deepEqual(nested.candidates('http').map((candidate) => candidate.filePath), [http, libHttp]);
+    assert.equal(nested.getModule('lib.http')?.filePath, libHttp);
+    assert.deepEqual(nested.candidates('pkg').map((candidate) => candidate.filePath), [pkgInit, pkgFile]);
+    assert.deepEqual(
+        checkModuleResolution(nested, pkgFile).map((diagnostic) => [diagnostic.code, diagnostic.message]),
+        [['module-collision', `Module 'pkg' resolves to ${pkgInit}, so this file is never imported as 'pkg'`]]
+    );
+    assert.deepEqual(checkModuleResolution(nested, http).map((diagnostic) => diagnostic.code), ['module-collision']);
+    assert.deepEqual(checkModuleResolution(nested, path.join(project, 'other.abl')), []);
+    const report = describeModuleResolution('Module resolution', nested);
+    assert(report.includes(`2. \`${path.join(project, 'lib')}\` (workspace)`));
+    assert(report.includes(`- \`http\` → \`${http}\`\n  - shadows \`${libHttp}\` (workspace)`));
+    fs.rmSync(http);
+    assert.deepEqual(Array.from(await nested.applyChanges([{ filePath: http, type: 'deleted' }])), ['http']);
+    assert.deepEqual(exportsOf(nested, 'http'), ['post']);
+
+    // Files are read a few at a time, so a large library does not run out of file descriptors.
+    const large = path.join(storage, 'large');
+    for (let i = 0; i < 500; i++) {
+        write(path.join(large, `mod${i}.abl`), `fun f${i}():\n    return ${i}\n`);
+    }
+    const { readFile, stat } = fs.promises;
+    let reading = 0;
+    let peak = 0;
+    const track = <T>(pending: Promise<T>): Promise<T> => {
+        peak = Math.max(peak, ++reading);
+        return pending.finally(() => reading--);
+    };
+    fs.promises.readFile = ((...args: Parameters<typeof readFile>) => track(readFile(...args))) as typeof readFile;
+    fs.promises.stat = ((...args: Parameters<typeof stat>) => track(stat(...args))) as typeof stat;
+    try {
+        const wide = createModuleIndex({ openDocument: () => undefined, warn: (message) => warnings.push(message) });
+        wide.setRoots([{ path: large, kind: 'library' }]);
+        assert.equal(await wide.rebuild(), true);
+        assert.equal(Array.from(wide.listModules()).length, 500);
+    } finally {
+        fs.promises.readFile = readFile;
+        fs.promises.stat = stat;
+    }
+    assert(peak <= 16, `${peak} files open at once`);
+
+    assert.deepEqual(warnings, []);
+}
+
+run()
+    .finally(() => {
+        fs.rmSync(workspace, { recursive: true, force: true });
+        fs.rmSync(lib, { recursive: true, force: true });
+        fs.rmSync(storage, { recursive: true, force: true });
+    })
+    .catch((err) => {
+        console.error(err);
+        process.exitCode = 1;
+    });
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseFormatOptions } from './formatConfig';
+import { FormatOptions } from './formatter';
+import { DEFAULT_INDEX_SETTINGS, IndexSettings, SearchRoot, parseIndexSettings } from './workspaceIndex';
+
+// The `able` settings as they apply to one workspace folder.
+export type FolderSettings = {
+    stdlibPaths: string[];
+    useEnvAblePath: boolean;
+    builtinsCatalog: string;
+    indexCache: boolean;
+    index: IndexSettings;
+    format: Partial<FormatOptions>;
+};
+
+export const DEFAULT_FOLDER_SETTINGS: FolderSettings = {
+    stdlibPaths: [],
+    useEnvAblePath: true,
+    builtinsCatalog: '',
+    indexCache: false,
+    index: DEFAULT_INDEX_SETTINGS,
+    format: {}
+};
+
+export function parseFolderSettings(value: unknown): FolderSettings {
+    if (!value || typeof value !== 'object') {
+        return DEFAULT_FOLDER_SETTINGS;
+    }
+    const config = value as Record<string, unknown>;
+    const index = config.index as Record<string, unknown> | undefined;
+    return {
+        stdlibPaths: Array.isArray(config.stdlibPaths) ? config.stdlibPaths.filter((item) => typeof item === 'string') : [],
+        useEnvAblePath: config.useEnvAblePath !== false,
+        builtinsCatalog: typeof config.builtinsCatalog === 'string' ? config.builtinsCatalog : '',
+        indexCache: index?.cache === true,
+        index: parseIndexSettings(index),
+        format: parseFormatOptions(config.format)
+    };
+}
+
+// Relative setting paths resolve against the folder they were configured for.
+export function resolveSettingPath(input: string, base: string | null): string {
+    if (input.startsWith('~')) {
+        const home = process.env.HOME || process.env.USERPROFILE || '';
+        return path.resolve(home, input.slice(1));
+    }
+    if (!path.isAbsolute(input) && base) {
+        return path.resolve(base, input);
+    }
+    return path.resolve(input);
+}
+
+export function toolchainDirs(settings: FolderSettings, base: string | null): string[] {
+    const ablePath = process.env.ABLEPATH;
+    const envDirs = settings.useEnvAblePath && ablePath ? ablePath.split(path.delimiter).filter(Boolean) : [];
+    return [...settings.stdlibPaths, ...envDirs].map((dir) => resolveSettingPath(dir, base));
+}
+
+// The folder itself and its `lib` come first, so they shadow modules of the same name on the library paths.
+export function searchRootsFor(folder: string | null, settings: FolderSettings, base = folder): SearchRoot[] {
+    const roots = new Map<string, SearchRoot>();
+    const add = (dir: string, kind: SearchRoot['kind']) => {
+        if (!roots.has(dir) && fs.existsSync(dir)) {
+            roots.set(dir, { path: dir, kind });
+        }
+    };
+    if (folder) {
+        add(folder, 'workspace');
+        add(path.join(folder, 'lib'), 'workspace');
+    }
+    toolchainDirs(settings, base).forEach((dir) => add(dir, 'library'));
+    return Array.from(roots.values());
+}
+
+// The innermost folder containing `filePath`, so nested workspace folders own their own files.
+export function folderForPath(folders: Iterable<string>, filePath: string): string | null {
+    let best: string | null = null;
+    for (const folder of folders) {
+        const rel = path.relative(folder, filePath);
+        if (rel && !rel.startsWith('..') && !path.isAbsolute(rel) && (!best || folder.length > best.length)) {
+            best = folder;
+        }
+    }
+    return best;
+}
@@ -0,0 +1,566 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Program, walkStatements } from './ast';
+import { DEFAULT_INDEX_EXCLUDE, IndexFilterSettings, PathFilter, createPathFilter, readIgnoreFile } from './indexFilter';
+import { Comment } from './lexer';
+import { ModuleEntry, ModuleResolver } from './modules';
+import { ParseResult, parse } from './parser';
+import { collectSymbols } from './symbols';
+
+// Bump whenever the parser output changes shape, so old caches are ignored.
+export const INDEX_CACHE_VERSION = 2;
+
+const READ_CONCURRENCY = 16;
+
+export type IndexSettings = IndexFilterSettings & {
+    maxFiles: number;
+    maxDepth: number;
+};
+
+export const DEFAULT_INDEX_SETTINGS: IndexSettings = {
+    include: [],
+    exclude: DEFAULT_INDEX_EXCLUDE,
+    maxFiles: 20000,
+    maxDepth: 20
+};
+
+function stringList(value: unknown): string[] | null {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : null;
+}
+
+function count(value: unknown, minimum: number): number | null {
+    return typeof value === 'number' && Number.isInteger(value) && value >= minimum ? value : null;
+}
+
+// Keeps the defaults for anything missing or invalid, like the `able.format` settings.
+export function parseIndexSettings(value: unknown): IndexSettings {
+    const record = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+    return {
+        include: stringList(record.include) ?? DEFAULT_INDEX_SETTINGS.include,
+        exclude: stringList(record.exclude) ?? DEFAULT_INDEX_SETTINGS.exclude,
+        maxFiles: count(record.maxFiles, 1) ?? DEFAULT_INDEX_SETTINGS.maxFiles,
+        maxDepth: count(record.maxDepth, 0) ?? DEFAULT_INDEX_SETTINGS.maxDepth
+    };
+}
+
+export type FileChange = {
+    filePath: string;
+    type: 'created' | 'changed' | 'deleted';
+};
+
+export type IndexOptions = {
+    openDocument(filePath: string): ParseResult | undefined;
+    warn(message: string): void;
+};
+
+export type IndexProgress = (done: number, total: number) => void;
+
+// Workspace roots hold the project's own modules; library roots come from `able.stdlibPaths` and `ABLEPATH`.
+export type SearchRoot = {
+    path: string;
+    kind: 'workspace' | 'library';
+};
+
+export type ModuleCandidate = {
+    filePath: string;
+    root: SearchRoot;
+};
+
+export interface ModuleIndex extends ModuleResolver {
+    readonly ready: boolean;
+    // Whether the last scan stopped at `maxFiles` or `maxDepth`.
+    readonly limited: boolean;
+    listModules(): Iterable<string>;
+    entries(): Iterable<ModuleEntry>;
+    searchRoots(): SearchRoot[];
+    // The name the file gets from the first search root containing it.
+    moduleNameForFile(filePath: string): string | null;
+    // Every name the file can be imported by, one per search root containing it.
+    moduleNamesForFile(filePath: string): string[];
+    // The files providing `moduleName`, the one imports resolve to first.
+    candidates(moduleName: string): ModuleCandidate[];
+    setRoots(roots: SearchRoot[]): void;
+    setCacheFile(cacheFile: string | null): void;
+    setSettings(settings: IndexSettings): void;
+    rebuild(progress?: IndexProgress): Promise<boolean>;
+    applyChanges(changes: FileChange[]): Promise<Set<string>>;
+    updateDocument(filePath: string, parsed: ParseResult): Set<string>;
+    dependents(moduleName: string): Set<string>;
+}
+
+type IndexedFile = {
+    moduleNames: string[];
+    mtimeMs: number;
+    size: number;
+    program: Program;
+    comments: Comment[];
+};
+
+type Walk = {
+    root: string;
+    filter: PathFilter;
+    settings: IndexSettings;
+    files: Set<string>;
+    limits: Set<'maxFiles' | 'maxDepth'>;
+    stale(): boolean;
+};
+
+type CacheData = {
+    version: number;
+    files: { [filePath: string]: IndexedFile };
+};
+
+function isInside(root: string, filePath: string): boolean {
+    const rel = path.relative(root, filePath);
+    return !!rel && !rel.startsWith('..') && !path.isAbsolute(rel);
+}
+
+function rootIndex(roots: string[], filePath: string): number {
+    return roots.findIndex((root) => isInside(root, filePath));
+}
+
+function relativePath(root: string, filePath: string): string {
+    return path.relative(root, filePath).replace(/\\/g, '/');
+}
+
+function moduleNameForPath(relative: string): string | null {
+    if (!relative.endsWith('.abl')) {
+        return null;
+    }
+    const parts = relative.split('/');
+    const last = parts[parts.length - 1];
+    if (last === '__init__.abl') {
+        parts.pop();
+    } else {
+        parts[parts.length - 1] = last.replace(/\.abl$/, '');
+    }
+    return parts.length > 0 ? parts.join('.') : null;
+}
+
+export function moduleNameForFile(roots: string[], filePath: string): string | null {
+    const index = rootIndex(roots, filePath);
+    return index < 0 ? null : moduleNameForPath(relativePath(roots[index], filePath));
+}
+
+// Collects the `.abl` files under `dir` that the filter accepts, stopping at the walk's limits.
+async function walkFiles(walk: Walk, dir: string): Promise<void> {
+    const depth = dir === walk.root ? 0 : relativePath(walk.root, dir).split('/').length;
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+        if (walk.stale()) {
+            return;
+        }
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory() && walk.filter(relativePath(walk.root, full), true)) {
+            if (depth >= walk.settings.maxDepth) {
+                walk.limits.add('maxDepth');
+            } else {
+                await walkFiles(walk, full);
+            }
+        } else if (entry.isFile() && entry.name.endsWith('.abl') && !walk.files.has(full) && walk.filter(relativePath(walk.root, full), false)) {
+            if (walk.files.size >= walk.settings.maxFiles) {
+                walk.limits.add('maxFiles');
+                return;
+            }
+            walk.files.add(full);
+        }
+    }
+}
+
+// Modules a program may depend on. `from a import b` might name the submodule `a.b`, so both are included.
+export function moduleImports(program: Program): Set<string> {
+    const imports = new Set<string>();
+    walkStatements(program.body, (statement) => {
+        if (statement.kind === 'Import') {
+            imports.add(statement.module.name);
+        } else if (statement.kind === 'FromImport') {
+            imports.add(statement.module.name);
+            statement.names.forEach((specifier) => imports.add(`${statement.module.name}.${specifier.name.name}`));
+        }
+    });
+    return imports;
+}
+
+class Indexer implements ModuleIndex {
+    ready = false;
+    limited = false;
+    private roots: SearchRoot[] = [];
+    private cacheFile: string | null = null;
+    private settings = DEFAULT_INDEX_SETTINGS;
+    private filters = new Map<string, PathFilter>();
+    private files = new Map<string, IndexedFile>();
+    // Candidate files per module name, each with the rank the interpreter tries it in.
+    private filesByModule = new Map<string, Map<string, number>>();
+    private modules = new Map<string, ModuleEntry>();
+    private imports = new Map<string, Set<string>>();
+    private importers = new Map<string, Set<string>>();
+    private generation = 0;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly options: IndexOptions) {}
+
+    getModule(name: string): ModuleEntry | undefined {
+        return this.modules.get(name);
+    }
+
+    listModules(): Iterable<string> {
+        return this.modules.keys();
+    }
+
+    entries(): Iterable<ModuleEntry> {
+        return this.modules.values();
+    }
+
+    searchRoots(): SearchRoot[] {
+        return this.roots;
+    }
+
+    moduleNameForFile(filePath: string): string | null {
+        return moduleNameForFile(this.roots.map((root) => root.path), filePath);
+    }
+
+    moduleNamesForFile(filePath: string): string[] {
+        return Array.from(this.namesFor(filePath).keys());
+    }
+
+    candidates(moduleName: string): ModuleCandidate[] {
+        return this.rankedCandidates(moduleName).map(([filePath, rank]) => ({ filePath, root: this.roots[rank >> 1] }));
+    }
+
+    setRoots(roots: SearchRoot[]): void {
+        this.roots = roots;
+    }
+
+    setCacheFile(cacheFile: string | null): void {
+        this.cacheFile = cacheFile;
+    }
+
+    setSettings(settings: IndexSettings): void {
+        this.settings = settings;
+    }
+
+    // Resolves to false when a newer rebuild superseded this one before it finished.
+    rebuild(progress?: IndexProgress): Promise<boolean> {
+        const generation = ++this.generation;
+        return this.enqueue(() => this.scan(generation, progress));
+    }
+
+    // Only rebuilds write the cache; files changed since then fail its size and mtime check and are read again.
+    applyChanges(changes: FileChange[]): Promise<Set<string>> {
+        return this.enqueue(async () => {
+            const touched = new Set<string>();
+            for (const change of changes) {
+                for (const moduleName of await this.applyChange(change)) {
+                    touched.add(moduleName);
+                }
+            }
+            return this.withDependents(touched);
+        });
+    }
+
+    // Open documents shadow the file on disk; their text is read through `openDocument`.
+    updateDocument(filePath: string, parsed: ParseResult): Set<string> {
+        const names = this.moduleNamesForFile(filePath);
+        if (names.length === 0) {
+            return new Set();
+        }
+        if (!this.files.has(filePath)) {
+            this.trackFile(filePath, { moduleNames: names, mtimeMs: 0, size: -1, program: parsed.program, comments: parsed.comments });
+        }
+        names.forEach((moduleName) => this.refreshModule(moduleName));
+        return this.withDependents(new Set(names));
+    }
+
+    dependents(moduleName: string): Set<string> {
+        const found = new Set<string>();
+        const pending = [moduleName];
+        while (pending.length > 0) {
+            for (const importer of this.importers.get(pending.pop() as string) ?? []) {
+                if (!found.has(importer) && importer !== moduleName) {
+                    found.add(importer);
+                    pending.push(importer);
+                }
+            }
+        }
+        return found;
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task, task);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private withDependents(modules: Set<string>): Set<string> {
+        const affected = new Set(modules);
+        for (const moduleName of modules) {
+            this.dependents(moduleName).forEach((dependent) => affected.add(dependent));
+        }
+        return affected;
+    }
+
+    // Every root containing the file that its filter accepts gives the file a name. Roots are tried in order and,
+    // within one root, a package's `__init__.abl` before a file of the same name, so that is the rank.
+    private namesFor(filePath: string, filters = this.filters): Map<string, number> {
+        const names = new Map<string, number>();
+        this.roots.forEach((root, index) => {
+            if (!isInside(root.path, filePath)) {
+                return;
+            }
+            const relative = relativePath(root.path, filePath);
+            const filter = filters.get(root.path);
+            const name = !filter || filter(relative, false) ? moduleNameForPath(relative) : null;
+            if (name && !names.has(name)) {
+                names.set(name, index * 2 + (path.basename(filePath) === '__init__.abl' ? 0 : 1));
+            }
+        });
+        return names;
+    }
+
+    private rankedCandidates(moduleName: string): Array<[string, number]> {
+        return Array.from(this.filesByModule.get(moduleName) ?? []).sort(([, a], [, b]) => a - b);
+    }
+
+    private async scan(generation: number, progress?: IndexProgress): Promise<boolean> {
+        const stale = () => generation !== this.generation;
+        const filters = new Map<string, PathFilter>();
+        for (const root of this.roots) {
+            filters.set(root.path, createPathFilter(this.settings, await readIgnoreFile(root.path)));
+        }
+        const found = new Set<string>();
+        const limits = new Set<'maxFiles' | 'maxDepth'>();
+        for (const root of this.roots) {
+            const filter = filters.get(root.path) as PathFilter;
+            try {
+                await walkFiles({ root: root.path, filter, settings: this.settings, files: found, limits, stale }, root.path);
+            } catch (err) {
+                this.options.warn(`Failed to scan ${root.path}: ${String(err)}`);
+            }
+            if (stale()) {
+                return false;
+            }
+        }
+        if (limits.has('maxFiles')) {
+            this.options.warn(`Stopped indexing after ${this.settings.maxFiles} files; raise able.index.maxFiles to index more.`);
+        }
+        if (limits.has('maxDepth')) {
+            this.options.warn(`Skipped folders nested deeper than ${this.settings.maxDepth}; raise able.index.maxDepth to index them.`);
+        }
+
+        const cache = await this.loadCache();
+        const files = new Map<string, IndexedFile>();
+        let done = 0;
+        // A few readers share one queue, so a large search path never holds more than that many files open.
+        const queue = found.values();
+        const reader = async () => {
+            for (const filePath of queue) {
+                const names = Array.from(this.namesFor(filePath, filters).keys());
+                const indexed = names.length > 0 && !stale() ? await this.readFile(filePath, names, cache.get(filePath)) : null;
+                if (indexed) {
+                    files.set(filePath, indexed);
+                }
+                progress?.(++done, found.size);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(READ_CONCURRENCY, found.size) }, reader));
+        if (stale()) {
+            return false;
+        }
+
+        // Swap in the finished index at once so requests never see a half-filled one.
+        this.filters = filters;
+        this.limited = limits.size > 0;
+        this.files = new Map();
+        this.filesByModule = new Map();
+        this.modules = new Map();
+        this.imports = new Map();
+        this.importers = new Map();
+        files.forEach((file, filePath) => this.trackFile(filePath, file));
+        for (const moduleName of this.filesByModule.keys()) {
+            this.refreshModule(moduleName);
+        }
+        this.ready = true;
+        await this.saveCache();
+        return true;
+    }
+
+    private async applyChange(change: FileChange): Promise<string[]> {
+        const { filePath } = change;
+        if (change.type === 'deleted') {
+            const prefix = filePath + path.sep;
+            const removed = Array.from(this.files.keys()).filter((file) => file === filePath || file.startsWith(prefix));
+            return removed.flatMap((file) => this.removeFile(file));
+        }
+
+        let filePaths = [filePath];
+        const stat = await fs.promises.stat(filePath).catch(() => null);
+        if (stat?.isDirectory()) {
+            filePaths = await this.collectFolder(filePath);
+        }
+        const touched: string[] = [];
+        for (const file of filePaths) {
+            const names = this.moduleNamesForFile(file);
+            const indexed = names.length > 0 ? await this.readFile(file, names) : null;
+            if (indexed) {
+                touched.push(...this.trackFile(file, indexed));
+                names.forEach((moduleName) => this.refreshModule(moduleName));
+                touched.push(...names);
+            } else if (this.files.has(file)) {
+                touched.push(...this.removeFile(file));
+            }
+        }
+        return touched;
+    }
+
+    // A folder that was created or moved in, walked with the filter and limits of the first root containing it.
+    private async collectFolder(dir: string): Promise<string[]> {
+        const root = this.roots.find((candidate) => isInside(candidate.path, dir));
+        const filter = root ? this.filters.get(root.path) : undefined;
+        if (!root || !filter || !filter(relativePath(root.path, dir), true)) {
+            return [];
+        }
+        const files = new Set<string>();
+        const settings = { ...this.settings, maxFiles: Math.max(0, this.settings.maxFiles - this.files.size) };
+        await walkFiles({ root: root.path, filter, settings, files, limits: new Set(), stale: () => false }, dir).catch(() => undefined);
+        return Array.from(files);
+    }
+
+    // Returns the names the file no longer provides, which need refreshing too.
+    private trackFile(filePath: string, file: IndexedFile): string[] {
+        const previous = this.files.get(filePath)?.moduleNames ?? [];
+        const dropped = previous.filter((moduleName) => !file.moduleNames.includes(moduleName));
+        dropped.forEach((moduleName) => this.filesByModule.get(moduleName)?.delete(filePath));
+        this.files.set(filePath, file);
+        const ranks = this.namesFor(filePath);
+        for (const moduleName of file.moduleNames) {
+            let candidates = this.filesByModule.get(moduleName);
+            if (!candidates) {
+                candidates = new Map();
+                this.filesByModule.set(moduleName, candidates);
+            }
+            candidates.set(filePath, ranks.get(moduleName) ?? Number.MAX_SAFE_INTEGER);
+        }
+        dropped.forEach((moduleName) => this.refreshModule(moduleName));
+        return dropped;
+    }
+
+    private removeFile(filePath: string): string[] {
+        const { moduleNames } = this.files.get(filePath) as IndexedFile;
+        this.files.delete(filePath);
+        for (const moduleName of moduleNames) {
+            this.filesByModule.get(moduleName)?.delete(filePath);
+            this.refreshModule(moduleName);
+        }
+        return moduleNames;
+    }
+
+    private async readFile(filePath: string, moduleNames: string[], cached?: IndexedFile): Promise<IndexedFile | null> {
+        try {
+            const stat = await fs.promises.stat(filePath);
+            if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+                return { ...cached, moduleNames };
+            }
+            const parsed = parse(await fs.promises.readFile(filePath, 'utf8'));
+            return { moduleNames, mtimeMs: stat.mtimeMs, size: stat.size, program: parsed.program, comments: parsed.comments };
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                this.options.warn(`Failed to read ${filePath}: ${String(err)}`);
+            }
+            return null;
+        }
+    }
+
+    // Re-selects the file that `moduleName` resolves to and updates the import graph.
+    private refreshModule(moduleName: string): void {
+        const candidates = this.rankedCandidates(moduleName);
+        for (const target of this.imports.get(moduleName) ?? []) {
+            this.importers.get(target)?.delete(moduleName);
+        }
+        this.imports.delete(moduleName);
+        if (candidates.length === 0) {
+            this.modules.delete(moduleName);
+            this.filesByModule.delete(moduleName);
+            return;
+        }
+
+        const [filePath] = candidates[0];
+        const parsed = this.options.openDocument(filePath) ?? (this.files.get(filePath) as IndexedFile);
+        this.modules.set(moduleName, {
+            moduleName,
+            filePath,
+            uri: pathToFileURL(filePath).href,
+            symbols: collectSymbols(parsed.program),
+            program: parsed.program,
+            comments: parsed.comments
+        });
+        const imports = moduleImports(parsed.program);
+        this.imports.set(moduleName, imports);
+        for (const target of imports) {
+            let importers = this.importers.get(target);
+            if (!importers) {
+                importers = new Set();
+                this.importers.set(target, importers);
+            }
+            importers.add(moduleName);
+        }
+    }
+
+    private async loadCache(): Promise<Map<string, IndexedFile>> {
+        if (!this.cacheFile) {
+            return new Map();
+        }
+        try {
+            const data = JSON.parse(await fs.promises.readFile(this.cacheFile, 'utf8')) as CacheData;
+            return data.version === INDEX_CACHE_VERSION ? new Map(Object.entries(data.files)) : new Map();
+        } catch {
+            return new Map();
+        }
+    }
+
+    private async saveCache(): Promise<void> {
+        if (!this.cacheFile) {
+            return;
+        }
+        const files: CacheData['files'] = {};
+        for (const [filePath, file] of this.files) {
+            if (file.size >= 0) {
+                files[filePath] = file;
+            }
+        }
+        try {
+            await fs.promises.mkdir(path.dirname(this.cacheFile), { recursive: true });
+            await fs.promises.writeFile(this.cacheFile, JSON.stringify({ version: INDEX_CACHE_VERSION, files }));
+        } catch (err) {
+            this.options.warn(`Failed to write ${this.cacheFile}: ${String(err)}`);
+        }
+    }
+}
+
+export function createModuleIndex(options: IndexOptions): ModuleIndex {
+    return new Indexer(options);
+}
+
+// A Markdown overview of the search roots and the file each module resolves to, for the "Show Module Resolution" command.
+export function describeModuleResolution(title: string, index: ModuleIndex): string {
+    const roots = index.searchRoots();
+    const lines = [`# ${title}`, '', '## Search roots', ''];
+    roots.forEach((root, i) => lines.push(`${i + 1}. \`${root.path}\` (${root.kind})`));
+    if (roots.length === 0) {
+        lines.push('None');
+    }
+    lines.push('', '## Modules', '');
+    const names = Array.from(index.listModules()).sort();
+    for (const moduleName of names) {
+        const [resolved, ...shadowed] = index.candidates(moduleName);
+        if (!resolved) {
+            continue;
+        }
+        lines.push(`- \`${moduleName}\` → \`${resolved.filePath}\``);
+        shadowed.forEach((candidate) => lines.push(`  - shadows \`${candidate.filePath}\` (${candidate.root.kind})`));
+    }
+    if (names.length === 0) {
+        lines.push('None');
+    }
+    return lines.join('\n') + '\n';
+}